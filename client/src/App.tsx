@@ -13,6 +13,7 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Channels from "@/pages/channels";
 import ContentFilters from "@/pages/content-filters";
+import Glossaries from "@/pages/glossaries";
 import Branding from "@/pages/branding";
 import Scheduler from "@/pages/scheduler";
 import Drafts from "@/pages/drafts";
@@ -28,6 +29,7 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/channels" component={Channels} />
       <Route path="/content-filters" component={ContentFilters} />
+      <Route path="/glossaries" component={Glossaries} />
       <Route path="/branding" component={Branding} />
       <Route path="/scheduler" component={Scheduler} />
       <Route path="/drafts" component={Drafts} />
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Bell, X, Activity, Globe, MessageSquare, FileText, AlertCircle } from 'lucide-react';
+import { Bell, X, Activity, Globe, MessageSquare, FileText, AlertCircle, History } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -17,6 +17,8 @@ const getStatusIcon = (status: ParseStatus) => {
       return <MessageSquare className="w-4 h-4" />;
     case 'draft_created':
       return <FileText className="w-4 h-4" />;
+    case 'history_import':
+      return <History className="w-4 h-4" />;
     case 'error':
       return <AlertCircle className="w-4 h-4" />;
     default:
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { BotStatus } from "@shared/schema";
+import { Bot, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+export function BotsSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [token, setToken] = useState("");
+
+  const { data: bots = [] } = useQuery<BotStatus[]>({
+    queryKey: ["/api/bots"],
+  });
+
+  const addBotMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/bots", { name: name.trim() || null, token: token.trim() });
+    },
+    onSuccess: () => {
+      setName("");
+      setToken("");
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      toast({ title: "Бот добавлен" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Не удалось добавить бота",
+        description: error.message || "Проверьте токен",
+      });
+    },
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/bots/check");
+      return response.json();
+    },
+    onSuccess: (statuses: BotStatus[]) => {
+      queryClient.setQueryData(["/api/bots"], statuses);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/bots/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      toast({ title: "Бот удалён" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Не удалось удалить бота",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Bot className="h-5 w-5" />
+            <span>Боты</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+            data-testid="button-check-bots"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${checkMutation.isPending ? "animate-spin" : ""}`} />
+            Проверить
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Каждая пара каналов публикует через выбранного бота. Основной бот задаётся токеном выше и также получает новые посты из источников.
+        </p>
+
+        <div className="space-y-2">
+          {bots.map((bot) => (
+            <div
+              key={bot.id ?? "main"}
+              className="flex items-center justify-between p-3 bg-muted rounded-lg"
+              data-testid={`bot-${bot.id ?? "main"}`}
+            >
+              <div>
+                <p className="font-medium">
+                  {bot.name || (bot.username ? `@${bot.username}` : "Без имени")}
+                  {bot.isMain && <Badge variant="secondary" className="ml-2">Основной</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {bot.name && bot.username && `@${bot.username} · `}
+                  {bot.lastCheckedAt
+                    ? `Проверен ${new Date(bot.lastCheckedAt).toLocaleString()}`
+                    : "Ещё не проверялся"}
+                  {bot.lastError && ` · ${bot.lastError}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge variant={bot.status === "ok" ? "default" : bot.status === "error" ? "destructive" : "outline"}>
+                  {bot.status === "ok" ? "Работает" : bot.status === "error" ? "Ошибка" : "Неизвестно"}
+                </Badge>
+                {!bot.isMain && bot.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(bot.id!)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-bot-${bot.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2">
+          <Input
+            placeholder="Название (необязательно)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-bot-name"
+          />
+          <Input
+            type="password"
+            placeholder="Токен бота"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            data-testid="input-new-bot-token"
+          />
+          <Button
+            onClick={() => addBotMutation.mutate()}
+            disabled={!token.trim() || addBotMutation.isPending}
+            data-testid="button-add-bot"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Добавить
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Pause,
   Circle,
   Languages,
+  PencilLine,
   FileText,
   Settings
 } from "lucide-react";
@@ -32,16 +33,31 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BotStatus, Glossary } from "@shared/schema";
+import { languageCodes, languageLabel, languageNames, type LanguageCode } from "@shared/languages";
+import { HistoryImportDialog } from "@/components/history-import-dialog";
 
 export function ChannelPairs() {
   const { data: channelPairs, isLoading } = useQuery({
     queryKey: ["/api/channel-pairs"],
   });
+  const { data: glossaries = [] } = useQuery<Glossary[]>({
+    queryKey: ["/api/glossaries"],
+  });
+
+  const { data: bots = [] } = useQuery<BotStatus[]>({
+    queryKey: ["/api/bots"],
+  });
   const { t } = useLanguage();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [pairToDelete, setPairToDelete] = useState<any>(null);
+  const [pairToBackfill, setPairToBackfill] = useState<any>(null);
+  const [backfillCount, setBackfillCount] = useState(20);
+  const [pairToImport, setPairToImport] = useState<any>(null);
   
   // Delete mutation
   const deleteMutation = useMutation({
@@ -67,6 +83,27 @@ export function ChannelPairs() {
     },
   });
   
+  // Backfill mutation
+  const backfillMutation = useMutation({
+    mutationFn: async ({ pairId, count }: { pairId: string; count: number }) => {
+      await apiRequest("POST", `/api/channel-pairs/${pairId}/backfill`, { count });
+    },
+    onSuccess: (_, { count }) => {
+      toast({
+        title: "Загрузка постов запущена",
+        description: `Последние ${count} постов источника будут обработаны в фоне`,
+      });
+      setPairToBackfill(null);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка загрузки постов",
+        description: error.message || "Не удалось запустить загрузку постов",
+      });
+    },
+  });
+
   // Pause/Resume mutation
   const toggleStatusMutation = useMutation({
     mutationFn: async ({ pairId, newStatus }: { pairId: string; newStatus: string }) => {
@@ -98,7 +135,7 @@ export function ChannelPairs() {
       queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
       toast({
         title: autoTranslate ? "Автоперевод включен" : "Автоперевод отключен",
-        description: autoTranslate ? "Тексты будут автоматически переводиться на русский" : "Автоматический перевод отключен",
+        description: autoTranslate ? "Тексты будут автоматически переводиться на выбранный язык" : "Автоматический перевод отключен",
       });
     },
     onError: (error: any) => {
@@ -110,6 +147,80 @@ export function ChannelPairs() {
     },
   });
 
+  // Edit sync toggle mutation
+  const toggleSyncEditsMutation = useMutation({
+    mutationFn: async ({ pairId, syncEdits }: { pairId: string; syncEdits: boolean }) => {
+      await apiRequest("PUT", `/api/channel-pairs/${pairId}`, { syncEdits });
+    },
+    onSuccess: (_, { syncEdits }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({
+        title: syncEdits ? "Синхронизация правок включена" : "Синхронизация правок отключена",
+        description: syncEdits ? "Правки исходных постов будут применяться к опубликованным копиям" : "Правки исходных постов больше не переносятся",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка настройки синхронизации",
+        description: error.message || "Не удалось изменить настройку синхронизации правок",
+      });
+    },
+  });
+
+  // Publishing bot mutation
+  const changeBotMutation = useMutation({
+    mutationFn: async ({ pairId, botId }: { pairId: string; botId: string | null }) => {
+      await apiRequest("PUT", `/api/channel-pairs/${pairId}`, { botId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({ title: "Бот для публикации изменён" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка смены бота",
+        description: error.message || "Не удалось изменить бота",
+      });
+    },
+  });
+
+  const changeGlossaryMutation = useMutation({
+    mutationFn: async ({ pairId, glossaryId }: { pairId: string; glossaryId: string | null }) => {
+      await apiRequest("PUT", `/api/channel-pairs/${pairId}`, { glossaryId });
+    },
+    onSuccess: (_, { glossaryId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      const glossary = glossaries.find(item => item.id === glossaryId);
+      toast({ title: glossary ? `Глоссарий: ${glossary.name}` : "Глоссарий отключён" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка смены глоссария",
+        description: error.message || "Не удалось изменить глоссарий",
+      });
+    },
+  });
+
+  const changeTargetLanguageMutation = useMutation({
+    mutationFn: async ({ pairId, targetLanguage }: { pairId: string; targetLanguage: LanguageCode }) => {
+      await apiRequest("PUT", `/api/channel-pairs/${pairId}`, { targetLanguage });
+    },
+    onSuccess: (_, { targetLanguage }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({ title: `Язык перевода: ${languageLabel(targetLanguage)}` });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка смены языка перевода",
+        description: error.message || "Не удалось изменить язык перевода",
+      });
+    },
+  });
+
   // Copy mode mutation
   const changeCopyModeMutation = useMutation({
     mutationFn: async ({ pairId, copyMode }: { pairId: string; copyMode: string }) => {
@@ -158,6 +269,10 @@ export function ChannelPairs() {
     toggleAutoTranslateMutation.mutate({ pairId: pair.id, autoTranslate: newAutoTranslate });
   };
 
+  const handleToggleSyncEdits = (pair: any) => {
+    toggleSyncEditsMutation.mutate({ pairId: pair.id, syncEdits: !pair.syncEdits });
+  };
+
   const handleChangeCopyMode = (pair: any) => {
     const modeOptions = ["auto_publish", "draft", "both", "disabled"];
     const currentIndex = modeOptions.indexOf(pair.copyMode || "auto_publish");
@@ -284,7 +399,7 @@ export function ChannelPairs() {
                 <div className="flex items-center space-x-3">
                   <div className="flex items-center space-x-1">
                     <div className={`w-2 h-2 ${getStatusDot(pair.status)} rounded-full`}></div>
-                    <span className="text-sm text-muted-foreground capitalize">
+                    <span className="text-sm text-muted-foreground capitalize" title={pair.statusReason || undefined}>
                       {t(`channel-pairs.${pair.status}`)}
                     </span>
                   </div>
@@ -314,6 +429,26 @@ export function ChannelPairs() {
                     })()}
                   </div>
 
+                  {/* Publishing bot, only when there is a choice */}
+                  {bots.length > 1 && (
+                    <Select
+                      value={pair.botId ?? "main"}
+                      onValueChange={(value) => changeBotMutation.mutate({ pairId: pair.id, botId: value === "main" ? null : value })}
+                      disabled={changeBotMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 w-36 text-xs" data-testid={`select-bot-${pair.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bots.map((bot) => (
+                          <SelectItem key={bot.id ?? "main"} value={bot.id ?? "main"}>
+                            {bot.name || (bot.username ? `@${bot.username}` : "Основной бот")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
                   {/* Auto-translate toggle */}
                   <div className="flex items-center space-x-2">
                     <Languages className="h-4 w-4 text-muted-foreground" />
@@ -326,6 +461,57 @@ export function ChannelPairs() {
                     <span className="text-xs text-muted-foreground">
                       {pair.autoTranslate ? "Автоперевод" : "Перевод выкл"}
                     </span>
+                    {pair.autoTranslate && (
+                      <Select
+                        value={pair.targetLanguage}
+                        onValueChange={(value) => changeTargetLanguageMutation.mutate({ pairId: pair.id, targetLanguage: value as LanguageCode })}
+                        disabled={changeTargetLanguageMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 w-32 text-xs" data-testid={`select-target-language-${pair.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {languageCodes.map((code) => (
+                            <SelectItem key={code} value={code}>
+                              {languageNames[code].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {pair.autoTranslate && glossaries.length > 0 && (
+                      <Select
+                        value={pair.glossaryId ?? "none"}
+                        onValueChange={(value) => changeGlossaryMutation.mutate({ pairId: pair.id, glossaryId: value === "none" ? null : value })}
+                        disabled={changeGlossaryMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 w-36 text-xs" data-testid={`select-glossary-${pair.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Без глоссария</SelectItem>
+                          {glossaries.map((glossary) => (
+                            <SelectItem key={glossary.id} value={glossary.id}>
+                              {glossary.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+
+                  {/* Source edit sync toggle */}
+                  <div className="flex items-center space-x-2">
+                    <PencilLine className="h-4 w-4 text-muted-foreground" />
+                    <Switch
+                      checked={pair.syncEdits || false}
+                      onCheckedChange={() => handleToggleSyncEdits(pair)}
+                      disabled={toggleSyncEditsMutation.isPending}
+                      data-testid={`switch-syncedits-${pair.id}`}
+                    />
+                    <span className="text-xs text-muted-foreground">
+                      {pair.syncEdits ? "Синхр. правок" : "Правки выкл"}
+                    </span>
                   </div>
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -348,6 +534,18 @@ export function ChannelPairs() {
                       >
                         {pair.status === "active" ? t('channel-pairs.pause') : t('channel-pairs.resume')}
                       </DropdownMenuItem>
+                      <DropdownMenuItem
+                        data-testid={`menu-backfill-${pair.id}`}
+                        onClick={() => setPairToBackfill(pair)}
+                      >
+                        Загрузить последние посты
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        data-testid={`menu-import-${pair.id}`}
+                        onClick={() => setPairToImport(pair)}
+                      >
+                        Импорт истории в черновики
+                      </DropdownMenuItem>
                       <DropdownMenuItem 
                         className="text-destructive"
                         data-testid={`menu-delete-${pair.id}`}
@@ -388,6 +586,37 @@ export function ChannelPairs() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={!!pairToBackfill} onOpenChange={(open) => !open && setPairToBackfill(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Загрузить последние посты</AlertDialogTitle>
+            <AlertDialogDescription>
+              Посты из <strong>{pairToBackfill?.sourceName}</strong>, которые ещё не обрабатывались,
+              пройдут через фильтры и будут опубликованы или сохранены в черновики согласно режиму копирования.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="number"
+            min={1}
+            max={200}
+            value={backfillCount}
+            onChange={(e) => setBackfillCount(Math.min(200, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            data-testid="input-backfill-count"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => backfillMutation.mutate({ pairId: pairToBackfill.id, count: backfillCount })}
+              disabled={backfillMutation.isPending}
+            >
+              Загрузить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <HistoryImportDialog channelPair={pairToImport} onClose={() => setPairToImport(null)} />
     </Card>
   );
 }
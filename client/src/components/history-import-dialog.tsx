@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useParsingStatus } from "@/hooks/useParsingStatus";
+import { apiRequest } from "@/lib/queryClient";
+import type { HistoryImportJob } from "@shared/historyImport";
+import type { ChannelPair } from "@shared/schema";
+
+type ImportMode = "count" | "range";
+
+const statusLabels: Record<HistoryImportJob["status"], string> = {
+  running: "Выполняется",
+  completed: "Завершён",
+  failed: "Ошибка",
+  cancelled: "Отменён",
+};
+
+interface HistoryImportDialogProps {
+  channelPair: ChannelPair | null;
+  onClose: () => void;
+}
+
+export function HistoryImportDialog({ channelPair, onClose }: HistoryImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { statuses } = useParsingStatus();
+  const [mode, setMode] = useState<ImportMode>("count");
+  const [count, setCount] = useState(50);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: jobs = [] } = useQuery<HistoryImportJob[]>({
+    queryKey: ["/api/import-jobs", channelPair?.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/import-jobs?channelPairId=${channelPair!.id}`);
+      return response.json();
+    },
+    enabled: !!channelPair,
+    refetchInterval: (query) =>
+      query.state.data?.some(job => job.status === "running") ? 3000 : false,
+  });
+
+  const currentJob = jobs[0];
+  // WebSocket updates arrive faster than the polling above
+  const liveStatus = currentJob && statuses.find(status =>
+    status.type === "history_import" && status.sourceId === currentJob.id
+  );
+  const processed = liveStatus?.total !== undefined ? liveStatus.count ?? 0 : currentJob ? currentJob.created + currentJob.skipped : 0;
+  const total = liveStatus?.total ?? currentJob?.total;
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const options = mode === "count"
+        ? { count }
+        : {
+            from: new Date(`${from}T00:00:00`).toISOString(),
+            ...(to ? { to: new Date(`${to}T23:59:59`).toISOString() } : {}),
+          };
+      await apiRequest("POST", `/api/channel-pairs/${channelPair!.id}/import`, options);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs", channelPair?.id] });
+      toast({ title: "Импорт запущен", description: "Посты будут добавлены в черновики" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка импорта",
+        description: error.message || "Не удалось запустить импорт истории",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      await apiRequest("POST", `/api/import-jobs/${jobId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs", channelPair?.id] });
+    },
+  });
+
+  const isRunning = currentJob?.status === "running";
+  const canStart = mode === "count" ? count > 0 : !!from;
+
+  return (
+    <Dialog open={!!channelPair} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Импорт истории в черновики</DialogTitle>
+          <DialogDescription>
+            Прошлые посты {channelPair?.sourceName} пройдут через фильтры пары и попадут в черновики. Ничего не публикуется автоматически.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="flex gap-6">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="count" id="import-mode-count" />
+              <Label htmlFor="import-mode-count">Последние N постов</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="range" id="import-mode-range" />
+              <Label htmlFor="import-mode-range">За период</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "count" ? (
+            <Input
+              type="number"
+              min={1}
+              max={1000}
+              value={count}
+              onChange={(e) => setCount(Math.min(1000, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+              data-testid="input-import-count"
+            />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-from">С</Label>
+                <Input id="import-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-import-from" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-to">По</Label>
+                <Input id="import-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-import-to" />
+              </div>
+            </div>
+          )}
+
+          {currentJob && (
+            <div className="space-y-2 border rounded-lg p-3" data-testid="import-job-status">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{statusLabels[currentJob.status]}</span>
+                <span className="text-muted-foreground">
+                  {total !== undefined ? `${processed} из ${total}` : `Просмотрено постов: ${liveStatus?.count ?? currentJob.scanned}`}
+                </span>
+              </div>
+              <Progress value={total ? (processed / total) * 100 : isRunning ? 5 : 100} />
+              <p className="text-xs text-muted-foreground">
+                Создано черновиков: {currentJob.created}, пропущено: {currentJob.skipped}
+                {currentJob.error && ` — ${currentJob.error}`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={() => cancelMutation.mutate(currentJob.id)} disabled={cancelMutation.isPending} data-testid="button-cancel-import">
+              Остановить
+            </Button>
+          ) : (
+            <Button onClick={() => startMutation.mutate()} disabled={!canStart || startMutation.isPending} data-testid="button-start-import">
+              Начать импорт
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,400 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Image, Save, Upload, Trash2 } from "lucide-react";
+import {
+  defaultImagePipeline,
+  watermarkLayouts,
+  watermarkPositions,
+  type ImagePipelineConfig,
+  type WatermarkLayout,
+  type WatermarkPosition,
+} from "@shared/imagePipeline";
+import type { ChannelPair } from "@shared/schema";
+
+const positionLabels: Record<WatermarkPosition, string> = {
+  "top-left": "Сверху слева",
+  "top": "Сверху по центру",
+  "top-right": "Сверху справа",
+  "left": "Слева по центру",
+  "center": "По центру",
+  "right": "Справа по центру",
+  "bottom-left": "Снизу слева",
+  "bottom": "Снизу по центру",
+  "bottom-right": "Снизу справа",
+};
+
+const layoutLabels: Record<WatermarkLayout, string> = {
+  single: "Один знак",
+  tiled: "Замостить всё фото",
+};
+
+const NO_LOGO = "none";
+
+interface StoredLogo {
+  name: string;
+  size: number;
+}
+
+interface ImagePipelineSettingsProps {
+  channelPair: ChannelPair;
+}
+
+export function ImagePipelineSettings({ channelPair }: ImagePipelineSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [config, setConfig] = useState<ImagePipelineConfig>(defaultImagePipeline);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: logos = [] } = useQuery<StoredLogo[]>({
+    queryKey: ["/api/logos"],
+  });
+
+  useEffect(() => {
+    setConfig({ ...defaultImagePipeline, ...(channelPair.imagePipeline || {}) });
+  }, [channelPair]);
+
+  const update = <K extends keyof ImagePipelineConfig>(key: K, value: ImagePipelineConfig[K]) => {
+    setConfig(current => ({ ...current, [key]: value }));
+  };
+
+  // Re-render the sample photo shortly after the settings stop changing
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiRequest("POST", "/api/image-pipeline/preview", {
+          ...config,
+          watermarkText: config.watermarkText?.trim() || undefined,
+        });
+        objectUrl = URL.createObjectURL(await response.blob());
+        setPreviewUrl(objectUrl);
+      } catch {
+        setPreviewUrl(null);
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [config]);
+
+  const uploadLogoMutation = useMutation({
+    mutationFn: async (file: File) => {
+      // Sent as the raw body, the server does not accept multipart uploads
+      const response = await fetch("/api/logos", {
+        method: "POST",
+        headers: { "Content-Type": "image/png" },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || response.statusText);
+      }
+      return await response.json() as StoredLogo;
+    },
+    onSuccess: (logo) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/logos"] });
+      update("watermarkLogo", logo.name);
+      toast({ title: "Логотип загружен", description: "Не забудьте сохранить настройки" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка загрузки",
+        description: error.message || "Не удалось загрузить логотип",
+      });
+    },
+  });
+
+  const deleteLogoMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/logos/${name}`);
+    },
+    onSuccess: (_, name) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/logos"] });
+      if (config.watermarkLogo === name) update("watermarkLogo", undefined);
+      toast({ title: "Логотип удалён" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка удаления",
+        description: error.message || "Не удалось удалить логотип",
+      });
+    },
+  });
+
+  const handleLogoFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.type !== "image/png") {
+      toast({ variant: "destructive", title: "Нужен PNG", description: "Логотип должен быть PNG с прозрачным фоном" });
+      return;
+    }
+    uploadLogoMutation.mutate(file);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/channel-pairs/${channelPair.id}`, {
+        imagePipeline: { ...config, watermarkText: config.watermarkText?.trim() || undefined },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({ title: "Обработка изображений сохранена", description: "Настройки применятся к следующим постам" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка сохранения",
+        description: error.message || "Не удалось сохранить настройки изображений",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Image className="h-5 w-5" />
+          Обработка изображений
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between border rounded-lg p-3">
+          <div>
+            <p className="font-medium">Обрабатывать фото перед публикацией</p>
+            <p className="text-sm text-muted-foreground">Фото скачиваются и загружаются заново с вашими настройками</p>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(checked) => update("enabled", checked)}
+            data-testid="switch-image-pipeline"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="watermark-text">Текст водяного знака</Label>
+            <Input
+              id="watermark-text"
+              value={config.watermarkText || ""}
+              onChange={(e) => update("watermarkText", e.target.value)}
+              placeholder={`@${channelPair.targetUsername.replace("@", "")}`}
+              maxLength={100}
+              data-testid="input-watermark-text"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Логотип (PNG)</Label>
+            <div className="flex gap-2">
+              <Select
+                value={config.watermarkLogo || NO_LOGO}
+                onValueChange={(value) => update("watermarkLogo", value === NO_LOGO ? undefined : value)}
+              >
+                <SelectTrigger data-testid="select-watermark-logo">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOGO}>Без логотипа (текст)</SelectItem>
+                  {logos.map((logo, index) => (
+                    <SelectItem key={logo.name} value={logo.name}>
+                      <span className="flex items-center gap-2">
+                        <img src={`/api/logos/${logo.name}`} alt="" className="h-5 w-5 object-contain" />
+                        Логотип {logos.length - index}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input ref={fileInputRef} type="file" accept="image/png" className="hidden" onChange={handleLogoFile} />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadLogoMutation.isPending}
+                title="Загрузить логотип"
+                data-testid="button-upload-logo"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+              {config.watermarkLogo && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => deleteLogoMutation.mutate(config.watermarkLogo!)}
+                  disabled={deleteLogoMutation.isPending}
+                  title="Удалить логотип"
+                  data-testid="button-delete-logo"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Размещение</Label>
+            <Select value={config.layout} onValueChange={(value) => update("layout", value as WatermarkLayout)}>
+              <SelectTrigger data-testid="select-watermark-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {watermarkLayouts.map((layout) => (
+                  <SelectItem key={layout} value={layout}>{layoutLabels[layout]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Положение</Label>
+            <Select value={config.position} onValueChange={(value) => update("position", value as WatermarkPosition)}>
+              <SelectTrigger data-testid="select-watermark-position">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {watermarkPositions.map((position) => (
+                  <SelectItem key={position} value={position}>{positionLabels[position]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Прозрачность знака: {Math.round(config.opacity * 100)}%</Label>
+            <Slider
+              value={[Math.round(config.opacity * 100)]}
+              onValueChange={([value]) => update("opacity", value / 100)}
+              min={5}
+              max={100}
+              step={5}
+              data-testid="slider-watermark-opacity"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ширина логотипа: {Math.round(config.logoScale * 100)}% фото</Label>
+            <Slider
+              value={[Math.round(config.logoScale * 100)]}
+              onValueChange={([value]) => update("logoScale", value / 100)}
+              min={2}
+              max={100}
+              step={1}
+              disabled={!config.watermarkLogo}
+              data-testid="slider-logo-scale"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="watermark-margin">Отступ, px</Label>
+            <Input
+              id="watermark-margin"
+              type="number"
+              min={0}
+              max={500}
+              value={config.margin}
+              onChange={(e) => update("margin", Math.min(500, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+              data-testid="input-watermark-margin"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Обрезать снизу: {config.cropPercent}%</Label>
+            <Slider
+              value={[config.cropPercent]}
+              onValueChange={([value]) => update("cropPercent", value)}
+              min={0}
+              max={30}
+              step={1}
+              data-testid="slider-crop-percent"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-width">Макс. ширина, px</Label>
+            <Input
+              id="max-width"
+              type="number"
+              min={100}
+              max={5000}
+              value={config.maxWidth}
+              onChange={(e) => update("maxWidth", Number(e.target.value) || defaultImagePipeline.maxWidth)}
+              data-testid="input-max-width"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-height">Макс. высота, px</Label>
+            <Input
+              id="max-height"
+              type="number"
+              min={100}
+              max={5000}
+              value={config.maxHeight}
+              onChange={(e) => update("maxHeight", Number(e.target.value) || defaultImagePipeline.maxHeight)}
+              data-testid="input-max-height"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Качество сжатия: {config.quality}</Label>
+            <Slider
+              value={[config.quality]}
+              onValueChange={([value]) => update("quality", value)}
+              min={10}
+              max={100}
+              step={5}
+              data-testid="slider-quality"
+            />
+          </div>
+
+          <div className="flex items-center justify-between border rounded-lg p-3">
+            <Label htmlFor="strip-exif">Удалять EXIF и метаданные</Label>
+            <Switch
+              id="strip-exif"
+              checked={config.stripExif}
+              onCheckedChange={(checked) => update("stripExif", checked)}
+              data-testid="switch-strip-exif"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Предпросмотр на примере</Label>
+          {previewUrl ? (
+            <img
+              src={previewUrl}
+              alt="Предпросмотр обработки"
+              className="w-full max-w-xl rounded-lg border"
+              data-testid="image-pipeline-preview"
+            />
+          ) : (
+            <div className="max-w-xl py-8 text-center text-muted-foreground border rounded-lg">Загрузка...</div>
+          )}
+        </div>
+
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-image-pipeline">
+          <Save className="h-4 w-4 mr-1" />
+          Сохранить
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
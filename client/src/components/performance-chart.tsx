@@ -1,52 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { useLanguage } from "@/contexts/LanguageContext";
+import type { PostsPerDay } from "@shared/analytics";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
 import { BarChart3 } from "lucide-react";
 
-export function PerformanceChart() {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days are UTC, matching how /api/analytics groups posts
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export interface AnalyticsRange {
+  from: string; // YYYY-MM-DD
+  to: string;
+  channelPairId?: string;
+}
+
+export function lastDays(days: number): AnalyticsRange {
+  const now = Date.now();
+  return { from: dayOf(new Date(now - (days - 1) * DAY_MS)), to: dayOf(new Date(now)) };
+}
+
+export function analyticsQuery(path: string, range: AnalyticsRange): string {
+  const params = new URLSearchParams({ from: range.from, to: range.to });
+  if (range.channelPairId) params.set("channelPairId", range.channelPairId);
+  return `/api/analytics/${path}?${params}`;
+}
+
+// One point per day of the range, summed over channel pairs, with empty days filled in
+function toSeries(rows: PostsPerDay[], range: AnalyticsRange) {
+  const byDay = new Map<string, { posts: number; errors: number; posted: number }>();
+  for (const row of rows) {
+    const point = byDay.get(row.day) || { posts: 0, errors: 0, posted: 0 };
+    point.posts += row.total;
+    point.errors += row.failed;
+    point.posted += row.posted;
+    byDay.set(row.day, point);
+  }
+
+  const series = [];
+  for (let time = Date.parse(range.from); time <= Date.parse(range.to); time += DAY_MS) {
+    const day = dayOf(new Date(time));
+    const point = byDay.get(day) || { posts: 0, errors: 0, posted: 0 };
+    const finished = point.posted + point.errors;
+    series.push({
+      day,
+      posts: point.posts,
+      errors: point.errors,
+      successRate: finished > 0 ? Math.round((point.posted / finished) * 100) : null,
+    });
+  }
+  return series;
+}
+
+const periods = [
+  { days: 7, label: "chart.7-days" },
+  { days: 30, label: "chart.30-days" },
+  { days: 90, label: "chart.90-days" },
+] as const;
+
+/**
+ * Posts, errors and success rate per day. Pass `range` to control the period from outside;
+ * otherwise the card shows its own 7/30/90 day switch.
+ */
+export function PerformanceChart({ range }: { range?: AnalyticsRange }) {
   const { t } = useLanguage();
-  
+  const [days, setDays] = useState(7);
+  const activeRange = range || lastDays(days);
+
+  const { data: rows = [], isLoading } = useQuery<PostsPerDay[]>({
+    queryKey: [analyticsQuery("posts-per-day", activeRange)],
+  });
+
+  const series = toSeries(rows, activeRange);
+  const chartConfig = {
+    posts: { label: t('chart.posts'), color: "#3b82f6" },
+    successRate: { label: t('chart.success-rate'), color: "#22c55e" },
+    errors: { label: t('chart.errors'), color: "#ef4444" },
+  } satisfies ChartConfig;
+
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>{t('chart.title')}</CardTitle>
-          <div className="flex items-center space-x-2">
-            <Button 
-              variant="default" 
-              size="sm"
-              data-testid="button-chart-7days"
-            >
-              {t('chart.7-days')}
-            </Button>
-            <Button 
-              variant="ghost" 
-              size="sm"
-              data-testid="button-chart-30days"
-            >
-              {t('chart.30-days')}
-            </Button>
-            <Button 
-              variant="ghost" 
-              size="sm"
-              data-testid="button-chart-90days"
-            >
-              {t('chart.90-days')}
-            </Button>
-          </div>
+          {!range && (
+            <div className="flex items-center space-x-2">
+              {periods.map((period) => (
+                <Button
+                  key={period.days}
+                  variant={days === period.days ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setDays(period.days)}
+                  data-testid={`button-chart-${period.days}days`}
+                >
+                  {t(period.label)}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent>
-        {/* Chart Placeholder */}
-        <div className="h-64 bg-muted rounded-lg flex items-center justify-center">
-          <div className="text-center">
-            <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground">{t('chart.placeholder')}</p>
-            <p className="text-xs text-muted-foreground mt-2">
-              {t('chart.description')}
-            </p>
+        {!isLoading && rows.length === 0 ? (
+          <div className="h-64 bg-muted rounded-lg flex items-center justify-center">
+            <div className="text-center">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Нет постов за выбранный период</p>
+              <p className="text-xs text-muted-foreground mt-2">
+                {t('chart.description')}
+              </p>
+            </div>
           </div>
-        </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <ComposedChart data={series}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="day"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(day: string) => new Date(day).toLocaleDateString(undefined, { day: "numeric", month: "short" })}
+              />
+              <YAxis yAxisId="count" tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+              <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} width={36} unit="%" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar yAxisId="count" dataKey="posts" fill="var(--color-posts)" radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="count" dataKey="errors" fill="var(--color-errors)" radius={[4, 4, 0, 0]} />
+              <Line yAxisId="rate" dataKey="successRate" type="monotone" stroke="var(--color-successRate)" strokeWidth={2} dot={false} connectNulls />
+            </ComposedChart>
+          </ChartContainer>
+        )}
 
         {/* Chart Legend */}
         <div className="flex items-center justify-center space-x-6 mt-4">
@@ -31,6 +31,7 @@ const formSchema = insertChannelPairSchema.omit({
   removeChannelMentions: z.boolean().optional(),
   removeExternalLinks: z.boolean().optional(),
   addWatermark: z.boolean().optional(),
+  importCount: z.number().int().min(0).max(1000).optional(), // Past posts to import into drafts, 0 = none
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -57,12 +58,13 @@ export function QuickSetup() {
       removeChannelMentions: true,
       removeExternalLinks: true,
       addWatermark: false,
+      importCount: 0,
     },
   });
 
   const createChannelPairMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const { removeChannelMentions, removeExternalLinks, addWatermark, ...channelPairData } = data;
+      const { removeChannelMentions, removeExternalLinks, addWatermark, importCount, ...channelPairData } = data;
       
       const contentFilters = {
         removeChannelMentions,
@@ -73,16 +75,19 @@ export function QuickSetup() {
       const response = await apiRequest("POST", "/api/channel-pairs", {
         ...channelPairData,
         contentFilters,
+        ...(importCount ? { importHistory: { count: importCount } } : {}),
       });
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (channelPair) => {
       queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       toast({
         title: "Channel pair created successfully!",
-        description: "Monitoring will begin shortly.",
+        description: channelPair.importJob
+          ? "Monitoring will begin shortly. Past posts are being imported into drafts."
+          : "Monitoring will begin shortly.",
       });
       reset();
     },
@@ -246,6 +251,28 @@ export function QuickSetup() {
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="importCount">Импортировать прошлые посты в черновики</Label>
+                <Input
+                  id="importCount"
+                  type="number"
+                  min={0}
+                  max={1000}
+                  {...register("importCount", {
+                    setValueAs: (value) => value === "" ? 0 : Number(value),
+                  })}
+                  data-testid="input-import-count"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Сколько последних постов источника добавить в черновики (0 — не импортировать)
+                </p>
+                {errors.importCount && (
+                  <p className="text-sm text-destructive mt-1">
+                    {errors.importCount.message}
+                  </p>
+                )}
+              </div>
+
               <div>
                 <Label htmlFor="customBranding">{t('setup.custom-branding')}</Label>
                 <Textarea
@@ -8,7 +8,9 @@ import {
   Filter, 
   AlertTriangle, 
   Plus,
-  Clock
+  Clock,
+  RotateCw,
+  History
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
@@ -16,13 +18,26 @@ const getActivityIcon = (type: string) => {
   switch (type) {
     case "post_sent":
     case "post_created":
+    case "channel_pair_recovered":
       return { icon: CheckCircle, color: "bg-green-100 text-green-600" };
     case "post_failed":
+    case "scheduled_post_failed":
+    case "channel_pair_error":
       return { icon: AlertTriangle, color: "bg-red-100 text-red-600" };
     case "image_processed":
       return { icon: Image, color: "bg-blue-100 text-blue-600" };
+    case "post_retry_scheduled":
+    case "scheduled_post_retry_scheduled":
+      return { icon: RotateCw, color: "bg-yellow-100 text-yellow-600" };
     case "content_filtered":
+    case "filter_applied":
       return { icon: Filter, color: "bg-yellow-100 text-yellow-600" };
+    case "web_parsing_gap":
+    case "translation_budget_exceeded":
+    case "glossary_terms_missing":
+      return { icon: AlertTriangle, color: "bg-yellow-100 text-yellow-600" };
+    case "web_backfill_completed":
+      return { icon: History, color: "bg-blue-100 text-blue-600" };
     case "channel_pair_created":
       return { icon: Plus, color: "bg-green-100 text-green-600" };
     default:
@@ -13,6 +13,7 @@ import {
   FileText,
   Globe,
   Bot,
+  BookOpen,
   Menu,
   X
 } from "lucide-react";
@@ -51,6 +52,11 @@ const navigation = [
     href: "/content-filters",
     icon: Filter,
   },
+  {
+    name: "nav.glossaries",
+    href: "/glossaries",
+    icon: BookOpen,
+  },
   {
     name: "nav.branding",
     href: "/branding",
@@ -1,6 +1,11 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import type { DashboardStats } from "@shared/schema";
+import { statsWindows, type StatsWindow } from "@shared/timezone";
 import { 
   Wifi, 
   Send, 
@@ -10,9 +15,36 @@ import {
   TrendingDown 
 } from "lucide-react";
 
+type StatsResponse = DashboardStats & { subscriberGrowth: number | null };
+
+// Change against the previous period; `upIsGood` is false for counters where growth is bad news
+function trendOf(delta: number | null | undefined, suffix = "", upIsGood = true) {
+  if (delta === null || delta === undefined) {
+    return { trend: "—", trendIcon: TrendingUp, trendColor: "text-muted-foreground" };
+  }
+
+  const good = delta === 0 || (delta > 0) === upIsGood;
+  return {
+    trend: `${delta > 0 ? "+" : ""}${delta}${suffix}`,
+    trendIcon: delta < 0 ? TrendingDown : TrendingUp,
+    trendColor: good ? "text-green-600" : "text-red-600",
+  };
+}
+
+const comparisonText: Record<StatsWindow, string> = {
+  today: "stats.vs-yesterday",
+  "7d": "stats.vs-previous-7-days",
+  "30d": "stats.vs-previous-30-days",
+};
+
 export function StatusCards() {
-  const { data: stats, isLoading } = useQuery({
-    queryKey: ["/api/stats"],
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>("today");
+  const { data: stats, isLoading } = useQuery<StatsResponse>({
+    queryKey: ["/api/stats", statsWindow],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/stats?window=${statsWindow}`);
+      return response.json();
+    },
   });
   const { t } = useLanguage();
 
@@ -33,85 +65,92 @@ export function StatusCards() {
   const cards = [
     {
       title: t("stats.active-channels"),
-      value: (stats as any)?.activeChannels || 0,
+      value: stats?.activeChannels || 0,
       icon: Wifi,
       iconBg: "bg-green-100",
       iconColor: "text-green-600",
-      trend: "+2",
-      trendText: t("stats.this-week"),
-      trendIcon: TrendingUp,
-      trendColor: "text-green-600"
+      ...trendOf(stats?.subscriberGrowth),
+      trendText: t("stats.subscribers-this-week"),
     },
     {
       title: t("stats.posts-today"),
-      value: (stats as any)?.postsToday || 0,
+      value: stats?.postsToday || 0,
       icon: Send,
       iconBg: "bg-blue-100",
       iconColor: "text-blue-600",
-      trend: "+24%",
-      trendText: t("stats.vs-yesterday"),
-      trendIcon: TrendingUp,
-      trendColor: "text-green-600"
+      ...trendOf(stats?.trends.postsToday),
+      trendText: t("stats.vs-last-week"),
     },
     {
       title: t("stats.success-rate"),
-      value: `${(stats as any)?.successRate || 0}%`,
+      value: `${stats?.successRate || 0}%`,
       icon: CheckCircle,
       iconBg: "bg-green-100",
       iconColor: "text-green-600",
-      trend: "+0.3%",
-      trendText: t("stats.vs-last-week"),
-      trendIcon: TrendingUp,
-      trendColor: "text-green-600"
+      ...trendOf(stats?.trends.successRate, "%"),
+      trendText: t(comparisonText[statsWindow]),
     },
     {
       title: t("stats.errors"),
-      value: (stats as any)?.errors || 0,
+      value: stats?.errors || 0,
       icon: AlertTriangle,
       iconBg: "bg-red-100",
       iconColor: "text-red-600",
-      trend: "+1",
-      trendText: t("stats.since-yesterday"),
-      trendIcon: TrendingDown,
-      trendColor: "text-red-600"
+      ...trendOf(stats?.trends.errors, "", false),
+      trendText: t(comparisonText[statsWindow]),
     },
   ];
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6 mb-6 lg:mb-8">
-      {cards.map((card, index) => {
-        const Icon = card.icon;
-        const TrendIcon = card.trendIcon;
-        
-        return (
-          <Card key={index} data-testid={`card-${card.title.toLowerCase().replace(/\s+/g, '-')}`}>
-            <CardContent className="p-4 lg:p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    {card.title}
-                  </p>
-                  <p className="text-xl lg:text-2xl font-bold" data-testid={`value-${card.title.toLowerCase().replace(/\s+/g, '-')}`}>
-                    {card.value}
-                  </p>
+    <>
+      <div className="flex items-center justify-end space-x-2 mb-3">
+        {statsWindows.map((option) => (
+          <Button
+            key={option}
+            variant={statsWindow === option ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setStatsWindow(option)}
+            data-testid={`button-stats-${option}`}
+          >
+            {t(`stats.window-${option}`)}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6 mb-6 lg:mb-8">
+        {cards.map((card, index) => {
+          const Icon = card.icon;
+          const TrendIcon = card.trendIcon;
+          
+          return (
+            <Card key={index} data-testid={`card-${card.title.toLowerCase().replace(/\s+/g, '-')}`}>
+              <CardContent className="p-4 lg:p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {card.title}
+                    </p>
+                    <p className="text-xl lg:text-2xl font-bold" data-testid={`value-${card.title.toLowerCase().replace(/\s+/g, '-')}`}>
+                      {card.value}
+                    </p>
+                  </div>
+                  <div className={`w-10 h-10 lg:w-12 lg:h-12 ${card.iconBg} rounded-lg flex items-center justify-center`}>
+                    <Icon className={`${card.iconColor} h-5 w-5 lg:h-6 lg:w-6`} />
+                  </div>
                 </div>
-                <div className={`w-10 h-10 lg:w-12 lg:h-12 ${card.iconBg} rounded-lg flex items-center justify-center`}>
-                  <Icon className={`${card.iconColor} h-5 w-5 lg:h-6 lg:w-6`} />
+                <div className="mt-3 lg:mt-4 flex items-center">
+                  <span className={`${card.trendColor} text-xs lg:text-sm font-medium flex items-center`}>
+                    <TrendIcon className="h-3 w-3 mr-1" />
+                    {card.trend}
+                  </span>
+                  <span className="text-muted-foreground text-xs lg:text-sm ml-1">
+                    {card.trendText}
+                  </span>
                 </div>
-              </div>
-              <div className="mt-3 lg:mt-4 flex items-center">
-                <span className={`${card.trendColor} text-xs lg:text-sm font-medium flex items-center`}>
-                  <TrendIcon className="h-3 w-3 mr-1" />
-                  {card.trend}
-                </span>
-                <span className="text-muted-foreground text-xs lg:text-sm ml-1">
-                  {card.trendText}
-                </span>
-              </div>
-            </CardContent>
-          </Card>
-        );
-      })}
-    </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </>
   );
 }
@@ -14,6 +14,7 @@ const translations: Translations = {
   'nav.dashboard': { en: 'Dashboard', ru: 'Панель управления' },
   'nav.channels': { en: 'Channels', ru: 'Каналы' },
   'nav.content-filters': { en: 'Content Filters', ru: 'Фильтры контента' },
+  'nav.glossaries': { en: 'Glossaries', ru: 'Глоссарии' },
   'nav.branding': { en: 'Branding', ru: 'Брендинг' },
   'nav.scheduler': { en: 'Scheduler', ru: 'Планировщик' },
   'nav.drafts': { en: 'Drafts', ru: 'Черновики' },
@@ -35,6 +36,12 @@ const translations: Translations = {
   'stats.vs-yesterday': { en: 'vs yesterday', ru: 'по сравнению со вчера' },
   'stats.vs-last-week': { en: 'vs last week', ru: 'по сравнению с прошлой неделей' },
   'stats.since-yesterday': { en: 'since yesterday', ru: 'со вчерашнего дня' },
+  'stats.subscribers-this-week': { en: 'subscribers this week', ru: 'подписчиков за неделю' },
+  'stats.vs-previous-7-days': { en: 'vs previous 7 days', ru: 'по сравнению с прошлыми 7 днями' },
+  'stats.vs-previous-30-days': { en: 'vs previous 30 days', ru: 'по сравнению с прошлыми 30 днями' },
+  'stats.window-today': { en: 'Today', ru: 'Сегодня' },
+  'stats.window-7d': { en: '7 days', ru: '7 дней' },
+  'stats.window-30d': { en: '30 days', ru: '30 дней' },
 
   // Channel Pairs
   'channel-pairs.title': { en: 'Active Channel Pairs', ru: 'Активные пары каналов' },
@@ -97,6 +104,8 @@ const translations: Translations = {
   'pages.channels.subtitle': { en: 'Manage your channel pairs and configurations', ru: 'Управление парами каналов и настройками' },
   'pages.content-filters.title': { en: 'Content Filters', ru: 'Фильтры контента' },
   'pages.content-filters.subtitle': { en: 'Configure content filtering rules and moderation settings', ru: 'Настройка правил фильтрации контента и модерации' },
+  'pages.glossaries.title': { en: 'Glossaries', ru: 'Глоссарии' },
+  'pages.glossaries.subtitle': { en: 'Terms translation must keep or translate in a fixed way', ru: 'Термины, которые перевод сохраняет или переводит строго заданным образом' },
   'pages.branding.title': { en: 'Branding', ru: 'Брендинг' },
   'pages.branding.subtitle': { en: 'Customize branding and visual elements for your posts', ru: 'Настройка брендинга и визуальных элементов для постов' },
   'pages.scheduler.title': { en: 'Scheduler', ru: 'Планировщик' },
@@ -141,6 +150,28 @@ const translations: Translations = {
   'settings.bot-error': { en: 'Failed to connect bot. Please check your token.', ru: 'Не удалось подключить бота. Проверьте токен.' },
   'settings.saving': { en: 'Saving...', ru: 'Сохранение...' },
   'settings.save': { en: 'Save Settings', ru: 'Сохранить настройки' },
+  'settings.bot-mode': { en: 'Receiving updates', ru: 'Получение обновлений' },
+  'settings.bot-mode-polling': { en: 'Polling (ask Telegram)', ru: 'Polling (опрос Telegram)' },
+  'settings.bot-mode-current-webhook': { en: 'Now: webhook', ru: 'Сейчас: webhook' },
+  'settings.bot-mode-current-polling': { en: 'Now: polling', ru: 'Сейчас: polling' },
+  'settings.bot-mode-inactive': { en: 'The bot is not receiving updates right now', ru: 'Бот сейчас не получает обновления' },
+  'settings.webhook-url': { en: 'Public server address', ru: 'Публичный адрес сервера' },
+  'settings.webhook-url-description': { en: 'Telegram will send updates to this address (HTTPS only). Requests are verified with a secret token created on every webhook registration', ru: 'Telegram будет отправлять обновления на этот адрес (только HTTPS). Запросы проверяются секретным токеном, который создаётся при каждой регистрации webhook' },
+  'settings.timezone': { en: 'Time zone', ru: 'Часовой пояс' },
+  'settings.timezone-description': { en: 'Dashboard statistics count days (today, 7 and 30 days) from midnight in this zone', ru: 'Статистика на панели считает дни (сегодня, 7 и 30 дней) от полуночи в этом поясе' },
+  'settings.translation-provider': { en: 'Translation service', ru: 'Сервис перевода' },
+  'settings.translation-provider-libretranslate': { en: 'LibreTranslate (self-hosted)', ru: 'LibreTranslate (свой сервер)' },
+  'settings.translation-provider-none': { en: 'No translation', ru: 'Без перевода' },
+  'settings.translation-current': { en: 'Now translating with', ru: 'Сейчас переводит' },
+  'settings.translation-disabled': { en: 'Translation is disabled', ru: 'Перевод отключён' },
+  'settings.translation-api-key': { en: 'Translation API key', ru: 'Ключ API перевода' },
+  'settings.translation-api-key-openai-default': { en: 'Defaults to OPENAI_API_KEY', ru: 'По умолчанию OPENAI_API_KEY' },
+  'settings.translation-api-url': { en: 'LibreTranslate address', ru: 'Адрес LibreTranslate' },
+  'settings.translation-budget': { en: 'Monthly translation budget, $', ru: 'Месячный бюджет на перевод, $' },
+  'settings.translation-budget-unlimited': { en: 'No limit', ru: 'Без ограничения' },
+  'settings.translation-budget-description': { en: 'Once the month\'s spend reaches the budget, new texts are not translated until next month. Texts translated before come from the cache', ru: 'Когда расходы за месяц достигнут бюджета, новые тексты перестают переводиться до начала следующего месяца. Уже переведённые тексты берутся из кэша' },
+  'settings.web-parser-max-pages': { en: 't.me history pages per check', ru: 'Страниц истории t.me за проверку' },
+  'settings.web-parser-max-pages-description': { en: 'If more than ~20 posts came out since the last check, the parser loads older pages too, but no more than this number', ru: 'Если с прошлой проверки вышло больше ~20 постов, парсер догружает более старые страницы, но не больше этого числа' },
 
   // Subscription Modal
   'subscription.title': { en: 'Trial Period Expired', ru: 'Пробный период истёк' },
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 
 export interface ParseStatus {
-  type: 'web_parsing' | 'channel_parsing' | 'draft_created' | 'error';
+  type: 'web_parsing' | 'channel_parsing' | 'draft_created' | 'history_import' | 'error';
   status: 'started' | 'progress' | 'completed' | 'error';
   sourceId?: string;
   sourceName?: string;
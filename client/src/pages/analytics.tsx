@@ -1,14 +1,234 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
+import { PerformanceChart, analyticsQuery, lastDays, type AnalyticsRange } from "@/components/performance-chart";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { useLanguage } from "@/contexts/LanguageContext";
+import type { ChannelPair, SubscriberGrowth } from "@shared/schema";
+import type { DraftFunnel, FailureReason, PostOutcomes, SourceLanguageCount, TranslationCounts, TranslationSpend } from "@shared/analytics";
+import { languageLabel } from "@shared/languages";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { TrendingDown, TrendingUp } from "lucide-react";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const chartConfig = {
+  subscribers: { label: "Подписчики", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const spendChartConfig = {
+  costUsd: { label: "Расход, $", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatUsd(value: number): string {
+  return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
+function formatLatency(seconds: number | null): string {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds} с`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} мин`;
+  return `${Math.round(seconds / 360) / 10} ч`;
+}
+
+function Metric({ label, value, hint }: { label: string; value: string | number; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4 lg:p-6">
+        <p className="text-sm font-medium text-muted-foreground">{label}</p>
+        <p className="text-xl lg:text-2xl font-bold">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TranslationSpendCard({ spend }: { spend: TranslationSpend }) {
+  const budgetShare = spend.budgetUsd ? Math.min(100, (spend.monthUsd / spend.budgetUsd) * 100) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Расходы на перевод</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Сегодня</p>
+            <p className="text-xl font-bold">{formatUsd(spend.todayUsd)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">В этом месяце</p>
+            <p className="text-xl font-bold">{formatUsd(spend.monthUsd)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Бюджет на месяц</p>
+            <p className="text-xl font-bold">{spend.budgetUsd !== null ? formatUsd(spend.budgetUsd) : "Без ограничения"}</p>
+          </div>
+        </div>
+
+        {budgetShare !== null && (
+          <div className="space-y-1">
+            <Progress value={budgetShare} />
+            <p className={`text-xs ${spend.budgetExceeded ? "text-destructive" : "text-muted-foreground"}`}>
+              {spend.budgetExceeded
+                ? "Бюджет исчерпан: новые тексты не переводятся до следующего месяца"
+                : `Использовано ${Math.round(budgetShare)}% бюджета`}
+            </p>
+          </div>
+        )}
+
+        {spend.daily.length > 0 ? (
+          <ChartContainer config={spendChartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={spend.daily}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="period"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(day: string) => new Date(day).toLocaleDateString(undefined, { day: "numeric", month: "short" })}
+              />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-muted-foreground">Нет платных запросов за выбранный период</p>
+        )}
+
+        {spend.monthly.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Месяц</TableHead>
+                <TableHead className="text-right">Запросов</TableHead>
+                <TableHead className="text-right">Токенов</TableHead>
+                <TableHead className="text-right">Расход</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {spend.monthly.map((month) => (
+                <TableRow key={month.period}>
+                  <TableCell>{month.period}</TableCell>
+                  <TableCell className="text-right">{month.requests}</TableCell>
+                  <TableCell className="text-right">{(month.promptTokens + month.completionTokens).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatUsd(month.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function GrowthCard({ growth }: { growth: SubscriberGrowth }) {
+  const first = growth.points[0];
+  const last = growth.points[growth.points.length - 1];
+  const delta = first && last ? last.subscribers - first.subscribers : null;
+
+  return (
+    <Card data-testid={`growth-${growth.channelUsername}`}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base">{growth.name}</CardTitle>
+            <p className="text-xs text-muted-foreground">@{growth.channelUsername}</p>
+          </div>
+          {last && (
+            <div className="text-right">
+              <p className="text-xl font-bold">{last.subscribers.toLocaleString()}</p>
+              {delta !== null && growth.points.length > 1 && (
+                <p className={`text-xs flex items-center justify-end ${delta < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {delta < 0 ? <TrendingDown className="h-3 w-3 mr-1" /> : <TrendingUp className="h-3 w-3 mr-1" />}
+                  {delta > 0 ? "+" : ""}{delta.toLocaleString()} за период
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {growth.points.length < 2 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Недостаточно данных: снимки подписчиков делаются раз в сутки
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <LineChart data={growth.points} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="day"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(day: string) => new Date(day).toLocaleDateString(undefined, { day: "numeric", month: "short" })}
+              />
+              <YAxis tickLine={false} axisLine={false} width={48} domain={["auto", "auto"]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="subscribers" type="monotone" stroke="var(--color-subscribers)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Analytics() {
   const { t } = useLanguage();
-  
+  const [range, setRange] = useState<AnalyticsRange>(() => lastDays(30));
+
+  const { data: channelPairs = [] } = useQuery<ChannelPair[]>({
+    queryKey: ["/api/channel-pairs"],
+  });
+
+  const { data: outcomes } = useQuery<PostOutcomes>({
+    queryKey: [analyticsQuery("outcomes", range)],
+  });
+
+  const { data: drafts } = useQuery<DraftFunnel>({
+    queryKey: [analyticsQuery("drafts", range)],
+  });
+
+  const { data: translations } = useQuery<TranslationCounts>({
+    queryKey: [analyticsQuery("translations", range)],
+  });
+
+  const { data: failureReasons = [] } = useQuery<FailureReason[]>({
+    queryKey: [analyticsQuery("failure-reasons", range)],
+  });
+
+  const { data: sourceLanguages = [] } = useQuery<SourceLanguageCount[]>({
+    queryKey: [analyticsQuery("languages", range)],
+  });
+
+  const { data: translationSpend } = useQuery<TranslationSpend>({
+    queryKey: [analyticsQuery("translation-spend", range)],
+  });
+
+  // Subscriber snapshots only go back from today, so the range start decides the window
+  const growthDays = Math.min(365, Math.max(2, Math.round((Date.now() - Date.parse(range.from)) / DAY_MS) + 1));
+  const { data: growth = [] } = useQuery<SubscriberGrowth[]>({
+    queryKey: [`/api/analytics/subscribers?days=${growthDays}`],
+  });
+
+  const selectedPair = channelPairs.find(pair => pair.id === range.channelPairId);
+  const visibleGrowth = selectedPair
+    ? growth.filter(channel => channel.channelUsername === selectedPair.targetUsername.replace('@', '').toLowerCase())
+    : growth;
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
-      
+
       <div className="flex-1 flex flex-col overflow-hidden">
         <header className="bg-card border-b border-border px-6 py-4">
           <div>
@@ -19,17 +239,176 @@ export default function Analytics() {
           </div>
         </header>
 
-        <main className="flex-1 overflow-auto p-6">
+        <main className="flex-1 overflow-auto p-6 space-y-6">
+          <Card>
+            <CardContent className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="analytics-from">С</Label>
+                <Input
+                  id="analytics-from"
+                  type="date"
+                  value={range.from}
+                  max={range.to}
+                  onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+                  data-testid="input-analytics-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-to">По</Label>
+                <Input
+                  id="analytics-to"
+                  type="date"
+                  value={range.to}
+                  min={range.from}
+                  onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+                  data-testid="input-analytics-to"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Пара каналов</Label>
+                <Select
+                  value={range.channelPairId ?? "all"}
+                  onValueChange={(value) => setRange({ ...range, channelPairId: value === "all" ? undefined : value })}
+                >
+                  <SelectTrigger data-testid="select-analytics-pair">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Все пары</SelectItem>
+                    {channelPairs.map((pair) => (
+                      <SelectItem key={pair.id} value={pair.id}>
+                        {pair.sourceName} → {pair.targetName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6">
+            <Metric
+              label="Постов"
+              value={outcomes?.total ?? 0}
+              hint={`Отфильтровано: ${outcomes?.filtered ?? 0}, в очереди: ${outcomes?.pending ?? 0}`}
+            />
+            <Metric
+              label={t('stats.success-rate')}
+              value={outcomes?.successRate === null || outcomes?.successRate === undefined ? "—" : `${outcomes.successRate}%`}
+              hint={`Опубликовано: ${outcomes?.posted ?? 0}, ошибок: ${outcomes?.failed ?? 0}`}
+            />
+            <Metric
+              label="Медианная задержка"
+              value={formatLatency(outcomes?.medianLatencySeconds ?? null)}
+              hint="От получения поста до публикации"
+            />
+            <Metric
+              label="Переводов"
+              value={translations?.translated ?? 0}
+              hint={`Ошибок перевода: ${translations?.failed ?? 0}`}
+            />
+          </div>
+
+          <PerformanceChart range={range} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Черновики</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between"><span>Создано</span><span className="font-medium">{drafts?.created ?? 0}</span></div>
+                <div className="flex justify-between"><span>Опубликовано</span><span className="font-medium">{drafts?.published ?? 0}</span></div>
+                <div className="flex justify-between"><span>Отклонено</span><span className="font-medium">{drafts?.discarded ?? 0}</span></div>
+                <div className="flex justify-between"><span>Ожидают</span><span className="font-medium">{drafts?.pending ?? 0}</span></div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Переводы по языкам</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {translations?.byLanguage.length ? (
+                  translations.byLanguage.map((entry) => (
+                    <div key={entry.language} className="flex justify-between">
+                      <span className="uppercase">{entry.language}</span>
+                      <span className="font-medium">{entry.count}</span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-muted-foreground">Нет переводов за выбранный период</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Языки оригиналов</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {sourceLanguages.length ? (
+                  sourceLanguages.map((entry) => (
+                    <div key={entry.language} className="flex justify-between">
+                      <span>{entry.language === "unknown" ? "Не определён" : languageLabel(entry.language)}</span>
+                      <span className="font-medium">
+                        {entry.posts} постов, {entry.drafts} черновиков
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-muted-foreground">Нет постов за выбранный период</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {translationSpend && <TranslationSpendCard spend={translationSpend} />}
+
           <Card>
             <CardHeader>
-              <CardTitle>{t('cards.performance-analytics')}</CardTitle>
+              <CardTitle>Частые ошибки публикации</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <p>{t('placeholder.analytics')}</p>
-              </div>
+              {failureReasons.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Ошибок за выбранный период нет</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Причина</TableHead>
+                      <TableHead className="w-24 text-right">Кол-во</TableHead>
+                      <TableHead className="w-48">Последний раз</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failureReasons.map((failure) => (
+                      <TableRow key={failure.reason}>
+                        <TableCell className="font-mono text-xs">{failure.reason}</TableCell>
+                        <TableCell className="text-right">{failure.count}</TableCell>
+                        <TableCell>{new Date(failure.lastSeenAt).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
           </Card>
+
+          <h2 className="text-lg font-semibold">Рост подписчиков</h2>
+          {visibleGrowth.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                Добавьте пару каналов, чтобы отслеживать рост подписчиков целевых каналов.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {visibleGrowth.map((channel) => (
+                <GrowthCard key={channel.channelUsername} growth={channel} />
+              ))}
+            </div>
+          )}
         </main>
       </div>
     </div>
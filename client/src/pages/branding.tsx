@@ -1,35 +1,298 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { ImagePipelineSettings } from "@/components/image-pipeline-settings";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Save, Eye } from "lucide-react";
+import { brandingPlaceholders, type BrandingPlaceholder } from "@shared/branding";
+import type { ChannelPair, Settings } from "@shared/schema";
+
+type TemplateField = "header" | "footer";
+
+interface BrandingPreview {
+  html: string;
+  sample: { source: "post" | "draft"; content: string; originalPostId: string } | null;
+}
+
+const GLOBAL_SCOPE = "global";
+
+const placeholderLabels: Record<BrandingPlaceholder, string> = {
+  source_name: "Название источника",
+  source_link: "Ссылка на источник",
+  original_url: "Ссылка на оригинал поста",
+  date: "Дата публикации",
+  target_name: "Название канала",
+  hashtags: "Хэштеги поста",
+};
 
 export default function Branding() {
   const { t } = useLanguage();
-  
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+  const [header, setHeader] = useState("");
+  const [footer, setFooter] = useState("");
+  const [useDefault, setUseDefault] = useState(false);
+  const [activeField, setActiveField] = useState<TemplateField>("footer");
+  const [previewPairId, setPreviewPairId] = useState<string>("");
+  const [preview, setPreview] = useState<BrandingPreview | null>(null);
+
+  const { data: channelPairs = [] } = useQuery<ChannelPair[]>({
+    queryKey: ["/api/channel-pairs"],
+  });
+
+  const { data: settings } = useQuery<Settings | null>({
+    queryKey: ["/api/settings"],
+  });
+
+  const selectedPair = channelPairs.find(pair => pair.id === scope);
+  const defaultHeader = settings?.defaultBrandingHeader || "";
+  const defaultFooter = settings?.defaultBranding || "";
+
+  // Load the template of the selected scope
+  useEffect(() => {
+    if (scope === GLOBAL_SCOPE) {
+      setHeader(defaultHeader);
+      setFooter(defaultFooter);
+      setUseDefault(false);
+    } else if (selectedPair) {
+      const hasOwn = !!(selectedPair.brandingHeader || selectedPair.customBranding);
+      setHeader(selectedPair.brandingHeader || "");
+      setFooter(selectedPair.customBranding || "");
+      setUseDefault(!hasOwn);
+      setPreviewPairId(selectedPair.id);
+    }
+  }, [scope, selectedPair, defaultHeader, defaultFooter]);
+
+  useEffect(() => {
+    if (!previewPairId && channelPairs.length > 0) {
+      setPreviewPairId(channelPairs[0].id);
+    }
+  }, [channelPairs, previewPairId]);
+
+  const effectiveHeader = useDefault ? defaultHeader : header;
+  const effectiveFooter = useDefault ? defaultFooter : footer;
+
+  // Re-render the preview shortly after the user stops typing
+  useEffect(() => {
+    if (!previewPairId) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiRequest("POST", "/api/branding/preview", {
+          channelPairId: previewPairId,
+          header: effectiveHeader,
+          footer: effectiveFooter,
+        });
+        setPreview(await response.json());
+      } catch {
+        setPreview(null);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [previewPairId, effectiveHeader, effectiveFooter]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (scope === GLOBAL_SCOPE) {
+        await apiRequest("PUT", "/api/branding/default", { header, footer });
+      } else {
+        await apiRequest("PUT", `/api/channel-pairs/${scope}`, {
+          brandingHeader: useDefault ? null : header || null,
+          customBranding: useDefault ? null : footer || null,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({ title: "Брендинг сохранён", description: "Новые посты будут оформлены по шаблону" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка сохранения",
+        description: error.message || "Не удалось сохранить шаблон",
+      });
+    },
+  });
+
+  const insertPlaceholder = (placeholder: BrandingPlaceholder) => {
+    const token = `{${placeholder}}`;
+    if (activeField === "header") {
+      setHeader(value => value ? `${value} ${token}` : token);
+    } else {
+      setFooter(value => value ? `${value} ${token}` : token);
+    }
+  };
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
-      
+
       <div className="flex-1 flex flex-col overflow-hidden">
         <header className="bg-card border-b border-border px-6 py-4">
-          <div>
-            <h1 className="text-2xl font-bold">{t('pages.branding.title')}</h1>
-            <p className="text-muted-foreground">
-              {t('pages.branding.subtitle')}
-            </p>
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">{t('pages.branding.title')}</h1>
+              <p className="text-muted-foreground">
+                {t('pages.branding.subtitle')}
+              </p>
+            </div>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-full lg:w-72" data-testid="select-branding-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE}>Шаблон по умолчанию</SelectItem>
+                {channelPairs.map((pair) => (
+                  <SelectItem key={pair.id} value={pair.id}>
+                    {pair.sourceName} → {pair.targetName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </header>
 
         <main className="flex-1 overflow-auto p-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>{t('cards.brand-settings')}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <p>{t('placeholder.branding')}</p>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('cards.brand-settings')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {scope !== GLOBAL_SCOPE && (
+                  <div className="flex items-center justify-between border rounded-lg p-3">
+                    <div>
+                      <p className="font-medium">Использовать шаблон по умолчанию</p>
+                      <p className="text-sm text-muted-foreground">Пока у пары нет своего шаблона, применяется общий</p>
+                    </div>
+                    <Switch checked={useDefault} onCheckedChange={setUseDefault} data-testid="switch-use-default-branding" />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="branding-header">Шапка (перед текстом)</Label>
+                  <Textarea
+                    id="branding-header"
+                    value={effectiveHeader}
+                    onChange={(e) => setHeader(e.target.value)}
+                    onFocus={() => setActiveField("header")}
+                    disabled={useDefault}
+                    rows={3}
+                    placeholder="<b>{source_name}</b>"
+                    data-testid="textarea-branding-header"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="branding-footer">Подпись (после текста)</Label>
+                  <Textarea
+                    id="branding-footer"
+                    value={effectiveFooter}
+                    onChange={(e) => setFooter(e.target.value)}
+                    onFocus={() => setActiveField("footer")}
+                    disabled={useDefault}
+                    rows={4}
+                    placeholder='Источник: <a href="{original_url}">{source_name}</a>'
+                    data-testid="textarea-branding-footer"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Подстановки</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {brandingPlaceholders.map((placeholder) => (
+                      <Button
+                        key={placeholder}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => insertPlaceholder(placeholder)}
+                        disabled={useDefault}
+                        title={placeholderLabels[placeholder]}
+                        data-testid={`button-placeholder-${placeholder}`}
+                      >
+                        {`{${placeholder}}`}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Поддерживается HTML-разметка Telegram: &lt;b&gt;, &lt;i&gt;, &lt;u&gt;, &lt;a href&gt;, &lt;code&gt;
+                  </p>
+                </div>
+
+                <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-branding">
+                  <Save className="h-4 w-4 mr-1" />
+                  Сохранить
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <CardTitle className="flex items-center gap-2">
+                    <Eye className="h-5 w-5" />
+                    Предпросмотр
+                  </CardTitle>
+                  {scope === GLOBAL_SCOPE && channelPairs.length > 0 && (
+                    <Select value={previewPairId} onValueChange={setPreviewPairId}>
+                      <SelectTrigger className="w-full md:w-64" data-testid="select-preview-pair">
+                        <SelectValue placeholder="Канал для примера" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {channelPairs.map((pair) => (
+                          <SelectItem key={pair.id} value={pair.id}>
+                            {pair.sourceName} → {pair.targetName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {channelPairs.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>Добавьте пару каналов, чтобы увидеть предпросмотр</p>
+                  </div>
+                ) : !preview ? (
+                  <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
+                ) : (
+                  <>
+                    <Badge variant="secondary">
+                      {preview.sample
+                        ? `Последний ${preview.sample.source === "draft" ? "черновик" : "пост"} #${preview.sample.originalPostId}`
+                        : "Пример текста — постов пока нет"}
+                    </Badge>
+                    {/* Server output is sanitized to Telegram's small HTML subset */}
+                    <div
+                      className="rounded-lg bg-muted p-4 text-sm whitespace-pre-wrap break-words [&_a]:text-blue-600 [&_a]:underline"
+                      dangerouslySetInnerHTML={{ __html: preview.html }}
+                      data-testid="branding-preview"
+                    />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {selectedPair && (
+              <div className="xl:col-span-2">
+                <ImagePipelineSettings channelPair={selectedPair} />
               </div>
-            </CardContent>
-          </Card>
+            )}
+          </div>
         </main>
       </div>
     </div>
@@ -1,14 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChannelPair, HealthCheckResult } from "@shared/schema";
+import { CheckCircle, XCircle, AlertTriangle, RefreshCw } from "lucide-react";
+
+const checkLabels = {
+  source: "Источник доступен",
+  target: "Бот может публиковать",
+  subscribers: "Подписчики обновлены",
+} as const;
+
+function CheckRow({ label, result, warningOnly }: { label: string; result: HealthCheckResult; warningOnly?: boolean }) {
+  const Icon = result.ok ? CheckCircle : warningOnly ? AlertTriangle : XCircle;
+  const color = result.ok ? "text-green-600" : warningOnly ? "text-yellow-600" : "text-destructive";
+
+  return (
+    <div className="flex items-start space-x-2 text-sm">
+      <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${color}`} />
+      <div>
+        <span>{label}</span>
+        {result.message && <p className="text-xs text-muted-foreground">{result.message}</p>}
+      </div>
+    </div>
+  );
+}
 
 export default function Channels() {
   const { t } = useLanguage();
-  
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: channelPairs = [], isLoading } = useQuery<ChannelPair[]>({
+    queryKey: ["/api/channel-pairs"],
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async (pairId: string) => {
+      const response = await apiRequest("POST", `/api/channel-pairs/${pairId}/health-check`);
+      return response.json();
+    },
+    onSuccess: (pair: ChannelPair) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({
+        title: pair.status === "error" ? "Проверка не пройдена" : "Проверка завершена",
+        description: pair.statusReason || `${pair.sourceName} → ${pair.targetName}`,
+        variant: pair.status === "error" ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка проверки",
+        description: error.message || "Не удалось проверить пару каналов",
+      });
+    },
+  });
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
-      
+
       <div className="flex-1 flex flex-col overflow-hidden">
         <header className="bg-card border-b border-border px-6 py-4">
           <div>
@@ -25,9 +81,55 @@ export default function Channels() {
               <CardTitle>{t('cards.channel-management')}</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <p>{t('placeholder.channel-management')}</p>
-              </div>
+              {isLoading ? null : channelPairs.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>{t('placeholder.channel-management')}</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {channelPairs.map((pair) => (
+                    <div key={pair.id} className="p-4 bg-muted rounded-lg space-y-3" data-testid={`health-${pair.id}`}>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{pair.sourceName} → {pair.targetName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {pair.health
+                              ? `Последняя проверка: ${new Date(pair.health.checkedAt).toLocaleString()}`
+                              : "Ещё не проверялась"}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Badge variant={pair.status === "error" ? "destructive" : pair.status === "active" ? "default" : "secondary"}>
+                            {t(`channel-pairs.${pair.status}`)}
+                          </Badge>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => checkMutation.mutate(pair.id)}
+                            disabled={checkMutation.isPending && checkMutation.variables === pair.id}
+                            data-testid={`button-health-check-${pair.id}`}
+                          >
+                            <RefreshCw className={`h-4 w-4 mr-2 ${checkMutation.isPending && checkMutation.variables === pair.id ? "animate-spin" : ""}`} />
+                            Проверить
+                          </Button>
+                        </div>
+                      </div>
+
+                      {pair.status === "error" && pair.statusReason && (
+                        <p className="text-sm text-destructive">{pair.statusReason}</p>
+                      )}
+
+                      {pair.health && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          <CheckRow label={checkLabels.source} result={pair.health.source} />
+                          <CheckRow label={checkLabels.target} result={pair.health.target} />
+                          <CheckRow label={checkLabels.subscribers} result={pair.health.subscribers} warningOnly />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </main>
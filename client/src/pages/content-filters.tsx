@@ -1,33 +1,488 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, FlaskConical } from "lucide-react";
+import type { ChannelPair, ContentFilters, FilterAction, FilterRule } from "@shared/schema";
+import type { FilterDecision, FilterResult } from "@shared/filters";
+
+type RuleType = FilterRule["type"];
+
+interface FilterTestSample {
+  source: "post" | "draft";
+  id: string;
+  channelPairId: string | null;
+  createdAt: string | null;
+  content: string;
+  result: FilterResult;
+}
+
+const GLOBAL_SCOPE = "global";
+
+const ruleTypeLabels: Record<RuleType, string> = {
+  include_keywords: "Обязательные слова",
+  exclude_keywords: "Запрещённые слова",
+  regex: "Регулярное выражение",
+  min_length: "Минимальная длина",
+  max_length: "Максимальная длина",
+  require_media: "Только с медиа",
+  language: "Разрешённые языки",
+  hashtags: "Хэштеги",
+};
+
+const actionLabels: Record<FilterAction, string> = {
+  skip: "Пропустить",
+  draft: "В черновики",
+  rewrite: "Изменить текст",
+};
+
+const decisionBadges: Record<FilterDecision, { label: string; className: string }> = {
+  send: { label: "Отправлен", className: "bg-green-100 text-green-800" },
+  draft: { label: "В черновики", className: "bg-yellow-100 text-yellow-800" },
+  skip: { label: "Пропущен", className: "bg-red-100 text-red-800" },
+};
+
+// Rule types whose condition has nothing to rewrite
+const gateOnlyTypes: RuleType[] = ["include_keywords", "min_length", "require_media", "language"];
+
+const createRule = (type: RuleType): FilterRule => {
+  const base = { id: crypto.randomUUID(), enabled: true };
+  switch (type) {
+    case "include_keywords":
+      return { ...base, type, keywords: [], action: "skip" };
+    case "exclude_keywords":
+      return { ...base, type, keywords: [], action: "skip", replacement: "" };
+    case "regex":
+      return { ...base, type, pattern: "", flags: "i", action: "rewrite", replacement: "" };
+    case "min_length":
+      return { ...base, type, length: 50, action: "skip" };
+    case "max_length":
+      return { ...base, type, length: 4000, action: "rewrite" };
+    case "require_media":
+      return { ...base, type, action: "skip" };
+    case "language":
+      return { ...base, type, languages: ["ru"], action: "draft" };
+    case "hashtags":
+      return { ...base, type, required: [], blocked: [], action: "rewrite" };
+  }
+};
+
+const parseList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
 
 export default function ContentFilters() {
   const { t } = useLanguage();
-  
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+  const [rules, setRules] = useState<FilterRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [testLimit, setTestLimit] = useState(20);
+  const [newRuleType, setNewRuleType] = useState<RuleType>("exclude_keywords");
+  const [testResults, setTestResults] = useState<FilterTestSample[] | null>(null);
+
+  const filtersKey = scope === GLOBAL_SCOPE
+    ? ["/api/filters/global"]
+    : ["/api/channel-pairs", scope, "filters"];
+
+  const { data: channelPairs = [] } = useQuery<ChannelPair[]>({
+    queryKey: ["/api/channel-pairs"],
+  });
+
+  const { data: filters, isLoading } = useQuery<ContentFilters>({
+    queryKey: filtersKey,
+  });
+
+  useEffect(() => {
+    setRules(filters?.rules || []);
+    setIsDirty(false);
+    setTestResults(null);
+  }, [filters]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const url = scope === GLOBAL_SCOPE ? "/api/filters/global" : `/api/channel-pairs/${scope}/filters`;
+      const response = await apiRequest("PUT", url, { rules });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: filtersKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      toast({ title: "Фильтры сохранены", description: `Правил: ${rules.length}` });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка сохранения",
+        description: error.message || "Проверьте правила и попробуйте ещё раз",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/filters/test", {
+        filters: { rules },
+        channelPairId: scope === GLOBAL_SCOPE ? undefined : scope,
+        limit: testLimit,
+      });
+      return response.json() as Promise<FilterTestSample[]>;
+    },
+    onSuccess: (samples) => setTestResults(samples),
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка проверки",
+        description: error.message || "Не удалось проверить правила",
+      });
+    },
+  });
+
+  const updateRules = (next: FilterRule[]) => {
+    setRules(next);
+    setIsDirty(true);
+  };
+
+  const updateRule = (index: number, changes: Partial<FilterRule>) => {
+    updateRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } as FilterRule : rule));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRules(next);
+  };
+
+  const getChannelPairName = (channelPairId: string | null) => {
+    const pair = channelPairs.find(p => p.id === channelPairId);
+    return pair ? `${pair.sourceName} → ${pair.targetName}` : "Веб-источник";
+  };
+
+  // How often each rule of the edited scope matched in the last test run
+  const getRuleStats = (index: number) => {
+    const ruleScope = scope === GLOBAL_SCOPE ? "global" : "pair";
+    const matches = (testResults || []).flatMap(sample =>
+      sample.result.matched.filter(match => match.scope === ruleScope && match.index === index)
+    );
+    return matches.length;
+  };
+
+  const renderRuleFields = (rule: FilterRule, index: number) => {
+    switch (rule.type) {
+      case "include_keywords":
+      case "exclude_keywords":
+        return (
+          <div className="space-y-2">
+            <Label>Слова через запятую</Label>
+            <Input
+              defaultValue={rule.keywords.join(", ")}
+              onBlur={(e) => updateRule(index, { keywords: parseList(e.target.value) })}
+              placeholder="реклама, промокод"
+              data-testid={`input-keywords-${index}`}
+            />
+            {rule.type === "exclude_keywords" && rule.action === "rewrite" && (
+              <Input
+                value={rule.replacement}
+                onChange={(e) => updateRule(index, { replacement: e.target.value })}
+                placeholder="Заменить на (пусто — удалить)"
+              />
+            )}
+          </div>
+        );
+      case "regex":
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_80px] gap-2">
+            <Input
+              value={rule.pattern}
+              onChange={(e) => updateRule(index, { pattern: e.target.value })}
+              placeholder="Шаблон, например https?://\S+"
+              className="font-mono"
+              data-testid={`input-pattern-${index}`}
+            />
+            <Input
+              value={rule.flags}
+              onChange={(e) => updateRule(index, { flags: e.target.value })}
+              placeholder="Флаги"
+              className="font-mono"
+            />
+            {rule.action === "rewrite" && (
+              <Input
+                value={rule.replacement}
+                onChange={(e) => updateRule(index, { replacement: e.target.value })}
+                placeholder="Заменить на ($1 — группа)"
+                className="md:col-span-2"
+              />
+            )}
+          </div>
+        );
+      case "min_length":
+      case "max_length":
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={rule.length}
+              onChange={(e) => updateRule(index, { length: parseInt(e.target.value) || 1 })}
+              className="w-32"
+              data-testid={`input-length-${index}`}
+            />
+            <span className="text-sm text-muted-foreground">символов</span>
+          </div>
+        );
+      case "require_media":
+        return <p className="text-sm text-muted-foreground">Срабатывает для постов без фото, видео и файлов</p>;
+      case "language":
+        return (
+          <div className="space-y-2">
+            <Label>Коды языков через запятую</Label>
+            <Input
+              defaultValue={rule.languages.join(", ")}
+              onBlur={(e) => updateRule(index, { languages: parseList(e.target.value) })}
+              placeholder="ru, en"
+            />
+          </div>
+        );
+      case "hashtags":
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Обязательные</Label>
+              <Input
+                defaultValue={rule.required.join(", ")}
+                onBlur={(e) => updateRule(index, { required: parseList(e.target.value) })}
+                placeholder="#новости"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Запрещённые</Label>
+              <Input
+                defaultValue={rule.blocked.join(", ")}
+                onBlur={(e) => updateRule(index, { blocked: parseList(e.target.value) })}
+                placeholder="#реклама"
+              />
+            </div>
+          </div>
+        );
+    }
+  };
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
-      
+
       <div className="flex-1 flex flex-col overflow-hidden">
         <header className="bg-card border-b border-border px-6 py-4">
-          <div>
-            <h1 className="text-2xl font-bold">{t('pages.content-filters.title')}</h1>
-            <p className="text-muted-foreground">
-              {t('pages.content-filters.subtitle')}
-            </p>
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">{t('pages.content-filters.title')}</h1>
+              <p className="text-muted-foreground">
+                {t('pages.content-filters.subtitle')}
+              </p>
+            </div>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-full lg:w-72" data-testid="select-filter-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE}>Глобальные фильтры (все каналы)</SelectItem>
+                {channelPairs.map((pair) => (
+                  <SelectItem key={pair.id} value={pair.id}>
+                    {pair.sourceName} → {pair.targetName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </header>
 
-        <main className="flex-1 overflow-auto p-6">
+        <main className="flex-1 overflow-auto p-6 space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>{t('cards.filter-configuration')}</CardTitle>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <CardTitle>{t('cards.filter-configuration')}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {scope === GLOBAL_SCOPE
+                      ? "Применяются ко всем каналам перед правилами пары"
+                      : "Применяются после глобальных правил, по порядку сверху вниз"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={newRuleType} onValueChange={(value) => setNewRuleType(value as RuleType)}>
+                    <SelectTrigger className="w-56" data-testid="select-new-rule-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ruleTypeLabels) as RuleType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{ruleTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => updateRules([...rules, createRule(newRuleType)])} data-testid="button-add-rule">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Добавить
+                  </Button>
+                  <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending} data-testid="button-save-filters">
+                    <Save className="h-4 w-4 mr-1" />
+                    Сохранить
+                  </Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <p>{t('placeholder.content-filtering')}</p>
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
+              ) : rules.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>Правил пока нет — все посты проходят без изменений</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {rules.map((rule, index) => {
+                    const matchCount = getRuleStats(index);
+                    const actions: FilterAction[] = gateOnlyTypes.includes(rule.type)
+                      ? ["skip", "draft"]
+                      : ["skip", "draft", "rewrite"];
+
+                    return (
+                      <div
+                        key={rule.id || index}
+                        className={`border rounded-lg p-4 space-y-3 ${rule.enabled ? "" : "opacity-60"}`}
+                        data-testid={`rule-${index}`}
+                      >
+                        <div className="flex flex-wrap items-center gap-3">
+                          <Badge variant="outline">#{index + 1}</Badge>
+                          <span className="font-medium">{ruleTypeLabels[rule.type]}</span>
+                          {testResults && (
+                            <Badge variant="secondary" data-testid={`badge-rule-matches-${index}`}>
+                              Сработало: {matchCount} из {testResults.length}
+                            </Badge>
+                          )}
+                          <div className="flex items-center gap-2 ml-auto">
+                            <Select
+                              value={rule.action}
+                              onValueChange={(value) => updateRule(index, { action: value as FilterAction })}
+                            >
+                              <SelectTrigger className="w-40" data-testid={`select-action-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {actions.map((action) => (
+                                  <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Switch
+                              checked={rule.enabled}
+                              onCheckedChange={(checked) => updateRule(index, { enabled: checked })}
+                              data-testid={`switch-rule-${index}`}
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateRules(rules.filter((_, i) => i !== index))}
+                              data-testid={`button-delete-rule-${index}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {renderRuleFields(rule, index)}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Проверка на последних постах</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Несохранённые правила проверяются без изменения постов
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="test-limit" className="whitespace-nowrap">Последние</Label>
+                  <Input
+                    id="test-limit"
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={testLimit}
+                    onChange={(e) => setTestLimit(Math.min(200, Math.max(1, parseInt(e.target.value) || 1)))}
+                    className="w-24"
+                  />
+                  <Button variant="outline" onClick={() => testMutation.mutate()} disabled={testMutation.isPending} data-testid="button-test-filters">
+                    <FlaskConical className="h-4 w-4 mr-1" />
+                    Проверить
+                  </Button>
+                </div>
               </div>
+            </CardHeader>
+            <CardContent>
+              {!testResults ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>Нажмите «Проверить», чтобы увидеть, что правила сделали бы с постами</p>
+                </div>
+              ) : testResults.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">Нет постов для проверки</div>
+              ) : (
+                <div className="space-y-3">
+                  {testResults.map((sample) => {
+                    const badge = decisionBadges[sample.result.decision];
+                    const changed = sample.result.content !== sample.content;
+
+                    return (
+                      <div key={`${sample.source}-${sample.id}`} className="border rounded-lg p-3 space-y-2" data-testid={`test-sample-${sample.id}`}>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <Badge className={badge.className}>{badge.label}</Badge>
+                          {changed && <Badge variant="outline">Текст изменён</Badge>}
+                          <Badge variant="secondary">{sample.source === "draft" ? "Черновик" : "Пост"}</Badge>
+                          <span className="text-muted-foreground">{getChannelPairName(sample.channelPairId)}</span>
+                        </div>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {sample.content.length > 200 ? `${sample.content.substring(0, 200)}...` : sample.content || "—"}
+                        </p>
+                        {changed && (
+                          <p className="text-sm whitespace-pre-wrap bg-muted rounded p-2">
+                            {sample.result.content.length > 200 ? `${sample.result.content.substring(0, 200)}...` : sample.result.content}
+                          </p>
+                        )}
+                        {sample.result.matched.length > 0 && (
+                          <ul className="text-xs text-muted-foreground space-y-1">
+                            {sample.result.matched.map((match, i) => (
+                              <li key={i}>
+                                {match.scope === "global" ? "Глобальное" : "Правило"} #{match.index + 1} ({ruleTypeLabels[match.type]}, {actionLabels[match.action]}): {match.reason}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         </main>
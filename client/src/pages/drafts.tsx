@@ -25,14 +25,26 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
 import { ru } from "date-fns/locale";
-import { Edit, Trash2, Send, Eye, Filter, FileText, Check, CheckSquare, Square } from "lucide-react";
-import type { DraftPost, ChannelPair } from "@shared/schema";
+import { Edit, Trash2, Send, Eye, Filter, FileText, Check, CheckSquare, Square, Languages } from "lucide-react";
+import type { DraftPost, ChannelPair, MediaType } from "@shared/schema";
+import { normalizeMediaItems } from "@shared/media";
+import { DEFAULT_TARGET_LANGUAGE, languageCodes, languageLabel } from "@shared/languages";
 import { useParsingStatus } from "@/hooks/useParsingStatus";
 
+const mediaTypeLabels: Record<MediaType, string> = {
+  photo: "Фото",
+  video: "Видео",
+  animation: "GIF",
+  document: "Документ",
+  audio: "Аудио",
+  voice: "Голосовое",
+};
+
 export default function DraftsPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedChannelPair, setSelectedChannelPair] = useState<string>("all");
+  const [selectedLanguage, setSelectedLanguage] = useState<string>("all");
   const [editingDraft, setEditingDraft] = useState<DraftPost | null>(null);
   const [editedContent, setEditedContent] = useState("");
   const [selectedDrafts, setSelectedDrafts] = useState<Set<string>>(new Set());
@@ -42,7 +54,9 @@ export default function DraftsPage() {
   
   // Auto-refresh drafts when new drafts are created
   useEffect(() => {
-    const draftCreatedStatuses = statuses.filter(status => status.type === 'draft_created');
+    const draftCreatedStatuses = statuses.filter(status =>
+      status.type === 'draft_created' || (status.type === 'history_import' && status.status === 'completed')
+    );
     if (draftCreatedStatuses.length > 0) {
       // Invalidate queries to refresh the draft list
       queryClient.invalidateQueries({ queryKey: ["/api/draft-posts"] });
@@ -56,12 +70,13 @@ export default function DraftsPage() {
 
   // Fetch draft posts
   const { data: drafts = [], isLoading } = useQuery<DraftPost[]>({
-    queryKey: ["/api/draft-posts", selectedChannelPair === "all" ? undefined : selectedChannelPair],
+    queryKey: ["/api/draft-posts", selectedChannelPair === "all" ? undefined : selectedChannelPair, selectedLanguage],
     queryFn: async () => {
-      const url = selectedChannelPair === "all" 
-        ? "/api/draft-posts" 
-        : `/api/draft-posts?channelPairId=${selectedChannelPair}`;
-      const response = await apiRequest("GET", url);
+      const params = new URLSearchParams();
+      if (selectedChannelPair !== "all") params.set("channelPairId", selectedChannelPair);
+      if (selectedLanguage !== "all") params.set("language", selectedLanguage);
+      const query = params.toString();
+      const response = await apiRequest("GET", query ? `/api/draft-posts?${query}` : "/api/draft-posts");
       return response.json();
     },
   });
@@ -245,6 +260,19 @@ export default function DraftsPage() {
                 ))}
               </SelectContent>
             </Select>
+            <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
+              <SelectTrigger className="w-full sm:w-44" data-testid="filter-language">
+                <SelectValue placeholder="Язык оригинала" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все языки</SelectItem>
+                {languageCodes.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {languageLabel(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
           
           <Badge variant="secondary" className="flex items-center gap-1 whitespace-nowrap">
@@ -362,9 +390,18 @@ export default function DraftsPage() {
                       </div>
                     </div>
                   </div>
-                  <Badge variant={draft.status === "draft" ? "secondary" : "default"}>
-                    {draft.status === "draft" ? "Черновик" : draft.status}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {draft.isTranslated && (
+                      <Badge variant="outline" className="flex items-center gap-1" data-testid={`badge-translation-${draft.id}`}>
+                        <Languages className="h-3 w-3" />
+                        {/* Drafts from before per-pair languages were always translated into the default */}
+                        {languageLabel(draft.originalLanguage)} → {languageLabel(draft.targetLanguage || DEFAULT_TARGET_LANGUAGE)}
+                      </Badge>
+                    )}
+                    <Badge variant={draft.status === "draft" ? "secondary" : "default"}>
+                      {draft.status === "draft" ? "Черновик" : draft.status}
+                    </Badge>
+                  </div>
                 </div>
               </CardHeader>
               
@@ -385,13 +422,13 @@ export default function DraftsPage() {
                   </div>
                 )}
 
-                {Array.isArray(draft.mediaUrls) && draft.mediaUrls.length > 0 && (
+                {normalizeMediaItems(draft.mediaUrls).length > 0 && (
                   <div>
                     <Label className="text-sm font-medium">Медиафайлы:</Label>
                     <div className="mt-1 flex flex-wrap gap-2">
-                      {draft.mediaUrls.map((url: string, index: number) => (
+                      {normalizeMediaItems(draft.mediaUrls).map((item, index) => (
                         <Badge key={index} variant="outline" className="text-xs">
-                          Файл {index + 1}
+                          {mediaTypeLabels[item.type]} {index + 1}
                         </Badge>
                       ))}
                     </div>
@@ -0,0 +1,405 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sidebar } from "@/components/sidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Save, Trash2, Upload } from "lucide-react";
+import type { ChannelPair, Glossary, GlossaryEntry, WebSource } from "@shared/schema";
+
+interface GlossaryImportResult {
+  glossary: Glossary;
+  imported: number;
+  errors: string[];
+}
+
+const parseLines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean);
+
+export default function Glossaries() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [name, setName] = useState("");
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [doNotTranslate, setDoNotTranslate] = useState("");
+  const [isDirty, setIsDirty] = useState(false);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const { data: glossaries = [], isLoading } = useQuery<Glossary[]>({
+    queryKey: ["/api/glossaries"],
+  });
+
+  const { data: channelPairs = [] } = useQuery<ChannelPair[]>({
+    queryKey: ["/api/channel-pairs"],
+  });
+
+  const { data: webSources = [] } = useQuery<WebSource[]>({
+    queryKey: ["/api/web-sources"],
+  });
+
+  const glossary = glossaries.find(item => item.id === selectedId) ?? glossaries[0];
+
+  useEffect(() => {
+    setName(glossary?.name ?? "");
+    setEntries(glossary?.entries ?? []);
+    setDoNotTranslate((glossary?.doNotTranslate ?? []).join("\n"));
+    setIsDirty(false);
+  }, [glossary]);
+
+  useEffect(() => {
+    setImportErrors([]);
+  }, [glossary?.id]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/glossaries", { name: newName });
+      return response.json() as Promise<Glossary>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossaries"] });
+      setSelectedId(created.id);
+      setNewName("");
+      toast({ title: "Глоссарий создан", description: created.name });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка создания глоссария",
+        description: error.message || "Не удалось создать глоссарий",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/glossaries/${glossary!.id}`, {
+        name,
+        entries: entries.filter(entry => entry.source.trim() && entry.target.trim()),
+        doNotTranslate: parseLines(doNotTranslate),
+      });
+      return response.json() as Promise<Glossary>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossaries"] });
+      toast({
+        title: "Глоссарий сохранён",
+        description: `Терминов: ${saved.entries.length}, без перевода: ${saved.doNotTranslate.length}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка сохранения",
+        description: error.message || "Проверьте термины и попробуйте ещё раз",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/glossaries/${glossary!.id}/import`, {
+        csv,
+        replace: replaceOnImport,
+      });
+      return response.json() as Promise<GlossaryImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossaries"] });
+      setCsv(null);
+      setImportErrors(result.errors);
+      toast({
+        title: "Импорт завершён",
+        description: `Добавлено терминов: ${result.imported}${result.errors.length ? `, пропущено строк: ${result.errors.length}` : ""}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка импорта",
+        description: error.message || "Не удалось импортировать CSV",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/glossaries/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossaries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-pairs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/web-sources"] });
+      setSelectedId(null);
+      toast({ title: "Глоссарий удалён" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Ошибка удаления",
+        description: error.message || "Не удалось удалить глоссарий",
+      });
+    },
+  });
+
+  const updateEntries = (next: GlossaryEntry[]) => {
+    setEntries(next);
+    setIsDirty(true);
+  };
+
+  const updateEntry = (index: number, changes: Partial<GlossaryEntry>) => {
+    updateEntries(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    setCsv(file ? await file.text() : null);
+  };
+
+  const usedByPairs = channelPairs.filter(pair => glossary && pair.glossaryId === glossary.id);
+  const usedBySources = webSources.filter(source => glossary && source.glossaryId === glossary.id);
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">{t('pages.glossaries.title')}</h1>
+              <p className="text-muted-foreground">
+                {t('pages.glossaries.subtitle')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {glossaries.length > 0 && (
+                <Select value={glossary?.id} onValueChange={setSelectedId}>
+                  <SelectTrigger className="w-56" data-testid="select-glossary">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {glossaries.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Название нового глоссария"
+                className="w-56"
+                data-testid="input-new-glossary"
+              />
+              <Button
+                variant="outline"
+                onClick={() => createMutation.mutate()}
+                disabled={!newName.trim() || createMutation.isPending}
+                data-testid="button-create-glossary"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Создать
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6 space-y-6">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
+          ) : !glossary ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                Глоссариев пока нет. Создайте глоссарий и подключите его к паре каналов или веб-источнику.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="space-y-2 flex-1 max-w-sm">
+                      <Label htmlFor="glossary-name">Название</Label>
+                      <Input
+                        id="glossary-name"
+                        value={name}
+                        onChange={(e) => { setName(e.target.value); setIsDirty(true); }}
+                        data-testid="input-glossary-name"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || !name.trim() || saveMutation.isPending} data-testid="button-save-glossary">
+                        <Save className="h-4 w-4 mr-1" />
+                        Сохранить
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" data-testid="button-delete-glossary">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Удалить глоссарий?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Пары каналов и веб-источники с этим глоссарием продолжат переводить без него.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Отмена</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteMutation.mutate(glossary.id)}>Удалить</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {usedByPairs.length === 0 && usedBySources.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">Не подключён ни к одной паре или веб-источнику</span>
+                    ) : (
+                      <>
+                        {usedByPairs.map((pair) => (
+                          <Badge key={pair.id} variant="secondary">{pair.sourceName} → {pair.targetName}</Badge>
+                        ))}
+                        {usedBySources.map((source) => (
+                          <Badge key={source.id} variant="outline">{source.name}</Badge>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                </CardHeader>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle>Обязательный перевод</CardTitle>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateEntries([...entries, { source: "", target: "" }])}
+                        data-testid="button-add-entry"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Термин
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Термин оригинала всегда переводится указанным вариантом, без учёта регистра
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {entries.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Терминов пока нет</p>
+                    ) : (
+                      entries.map((entry, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2" data-testid={`entry-${index}`}>
+                          <Input
+                            value={entry.source}
+                            onChange={(e) => updateEntry(index, { source: e.target.value })}
+                            placeholder="Оригинал"
+                          />
+                          <Input
+                            value={entry.target}
+                            onChange={(e) => updateEntry(index, { target: e.target.value })}
+                            placeholder="Перевод"
+                          />
+                          <Button variant="ghost" size="sm" onClick={() => updateEntries(entries.filter((_, i) => i !== index))}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Не переводить</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Бренды, тикеры и названия продуктов, по одному на строку. Регистр учитывается.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <Textarea
+                      value={doNotTranslate}
+                      onChange={(e) => { setDoNotTranslate(e.target.value); setIsDirty(true); }}
+                      placeholder={"Binance\nTON\niPhone"}
+                      className="min-h-48 font-mono"
+                      data-testid="textarea-do-not-translate"
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Импорт из CSV</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Строки вида «оригинал,перевод». Строка без перевода добавляет термин в список «Не переводить».
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col md:flex-row md:items-center gap-4">
+                    <Input
+                      type="file"
+                      accept=".csv,text/csv,text/plain"
+                      onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                      className="md:w-80"
+                      data-testid="input-glossary-csv"
+                    />
+                    <div className="flex items-center gap-2">
+                      <Switch checked={replaceOnImport} onCheckedChange={setReplaceOnImport} id="glossary-replace" />
+                      <Label htmlFor="glossary-replace">Заменить текущие термины</Label>
+                    </div>
+                    <Button
+                      onClick={() => importMutation.mutate()}
+                      disabled={!csv || importMutation.isPending}
+                      data-testid="button-import-glossary"
+                    >
+                      <Upload className="h-4 w-4 mr-1" />
+                      Импортировать
+                    </Button>
+                  </div>
+                  {isDirty && csv && (
+                    <p className="text-xs text-muted-foreground">Несохранённые изменения будут заменены импортом</p>
+                  )}
+                  {importErrors.length > 0 && (
+                    <div className="text-sm text-destructive space-y-1">
+                      {importErrors.map((error) => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Calendar, Clock, Plus, Edit, Trash2, Send } from "lucide-react";
+import { Calendar, Clock, Plus, Edit, Trash2, Send, RotateCw } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -70,6 +70,22 @@ export default function Scheduler() {
     },
   });
 
+  // Retry failed scheduled post mutation
+  const retryPostMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/scheduled-posts/${id}/retry`).then(res => res.json()),
+    onSuccess: (post: ScheduledPost) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+      if (post.status === 'published') {
+        toast({ title: "Пост опубликован", description: "Повторная отправка прошла успешно" });
+      } else {
+        toast({ title: "Не удалось отправить", description: post.lastError || "Повторная отправка не удалась", variant: "destructive" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Ошибка", description: "Не удалось повторить отправку", variant: "destructive" });
+    },
+  });
+
   const resetForm = () => {
     setSelectedChannelPair("");
     setPostTitle("");
@@ -101,6 +117,8 @@ export default function Scheduler() {
     switch (status) {
       case 'scheduled':
         return <Badge className="bg-blue-100 text-blue-800">Запланирован</Badge>;
+      case 'sending':
+        return <Badge className="bg-yellow-100 text-yellow-800">Отправляется</Badge>;
       case 'published':
         return <Badge className="bg-green-100 text-green-800">Опубликован</Badge>;
       case 'failed':
@@ -310,6 +328,18 @@ export default function Scheduler() {
                             </div>
                             <div className="flex items-center gap-2">
                               {getStatusBadge(post.status)}
+                              {(post.status === 'failed' || (post.status === 'scheduled' && post.nextAttemptAt)) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => retryPostMutation.mutate(post.id)}
+                                  disabled={retryPostMutation.isPending}
+                                  title="Повторить сейчас"
+                                  data-testid={`button-retry-${post.id}`}
+                                >
+                                  <RotateCw className="h-4 w-4" />
+                                </Button>
+                              )}
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -321,6 +351,12 @@ export default function Scheduler() {
                               </Button>
                             </div>
                           </div>
+                          {post.lastError && post.status !== 'published' && (
+                            <p className="text-sm text-red-600" data-testid={`text-error-${post.id}`}>
+                              ⚠️ {post.lastError}
+                              {post.nextAttemptAt && post.status === 'scheduled' && ` — повтор ${formatDateTime(post.nextAttemptAt)} (попытка ${(post.attemptCount || 0) + 1})`}
+                            </p>
+                          )}
                           <p className="text-sm" data-testid={`text-content-${post.id}`}>
                             {post.content.length > 150 ? `${post.content.substring(0, 150)}...` : post.content}
                           </p>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,13 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { BotsSettings } from "@/components/bots-settings";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertSettingsSchema } from "@shared/schema";
+import { insertSettingsSchema, type BotMode, type Settings as SettingsData, type TranslationProviderName } from "@shared/schema";
+import { DEFAULT_TIME_ZONE } from "@shared/timezone";
 import { z } from "zod";
 import { Settings as SettingsIcon, Bot, CheckCircle, AlertTriangle, Info } from "lucide-react";
 
@@ -22,32 +25,61 @@ const formSchema = insertSettingsSchema.extend({
 
 type FormData = z.infer<typeof formSchema>;
 
+// Form values for the stored settings, with defaults for anything not set yet
+function toFormValues(settings: SettingsData | undefined): FormData {
+  return {
+    botToken: settings?.botToken || "",
+    defaultBranding: settings?.defaultBranding || "",
+    notificationSettings: settings?.notificationSettings || {},
+    webParserMaxPages: settings?.webParserMaxPages ?? 10,
+    botMode: (settings?.botMode as BotMode | undefined) || "polling",
+    webhookUrl: settings?.webhookUrl || null,
+    timezone: settings?.timezone || DEFAULT_TIME_ZONE,
+    translationProvider: (settings?.translationProvider as TranslationProviderName | undefined) || "openai",
+    translationApiKey: settings?.translationApiKey || null,
+    translationApiUrl: settings?.translationApiUrl || null,
+    translationMonthlyBudgetUsd: settings?.translationMonthlyBudgetUsd ?? null,
+  };
+}
+
 export default function Settings() {
   const { t } = useLanguage();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [botStatus, setBotStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
 
-  const { data: settings, isLoading } = useQuery({
+  const { data: settings, isLoading } = useQuery<SettingsData>({
     queryKey: ["/api/settings"],
   });
 
+  const { data: updateMode } = useQuery<{ mode: BotMode | null; webhookUrl: string | null }>({
+    queryKey: ["/api/telegram/update-mode"],
+  });
+
+  const { data: translationStatus } = useQuery<{ provider: TranslationProviderName; enabled: boolean; reason?: string }>({
+    queryKey: ["/api/translation/status"],
+  });
+
   const {
     register,
     handleSubmit,
     setValue,
     watch,
+    reset,
     formState: { errors, isSubmitting }
   } = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      botToken: (settings as any)?.botToken || "",
-      defaultBranding: (settings as any)?.defaultBranding || "",
-      globalFilters: (settings as any)?.globalFilters || {},
-      notificationSettings: (settings as any)?.notificationSettings || {},
-    },
+    defaultValues: toFormValues(settings),
   });
 
+  // The first render usually happens before /api/settings returns; without this the form
+  // would save its defaults over the stored settings
+  useEffect(() => {
+    if (settings) {
+      reset(toFormValues(settings));
+    }
+  }, [settings, reset]);
+
   const saveSettingsMutation = useMutation({
     mutationFn: async (data: FormData) => {
       setBotStatus('testing');
@@ -58,6 +90,8 @@ export default function Settings() {
       setBotStatus('success');
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/telegram/update-mode"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/translation/status"] });
       toast({
         title: t('settings.saved-success'),
         description: t('settings.saved-description'),
@@ -138,6 +172,51 @@ export default function Settings() {
                     )}
                   </div>
 
+                  <div>
+                    <Label htmlFor="botMode">{t('settings.bot-mode')}</Label>
+                    <Select
+                      value={watch("botMode") || "polling"}
+                      onValueChange={(value) => setValue("botMode", value as BotMode)}
+                    >
+                      <SelectTrigger id="botMode" data-testid="select-bot-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="polling">{t('settings.bot-mode-polling')}</SelectItem>
+                        <SelectItem value="webhook">Webhook</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {updateMode?.mode === "webhook"
+                        ? `${t('settings.bot-mode-current-webhook')}: ${updateMode.webhookUrl}`
+                        : updateMode?.mode === "polling"
+                          ? t('settings.bot-mode-current-polling')
+                          : t('settings.bot-mode-inactive')}
+                    </p>
+                  </div>
+
+                  {watch("botMode") === "webhook" && (
+                    <div>
+                      <Label htmlFor="webhookUrl">{t('settings.webhook-url')}</Label>
+                      <Input
+                        id="webhookUrl"
+                        placeholder="https://example.com"
+                        {...register("webhookUrl", {
+                          setValueAs: (value) => value === "" ? null : value,
+                        })}
+                        data-testid="input-webhook-url"
+                      />
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {t('settings.webhook-url-description')}
+                      </p>
+                      {errors.webhookUrl && (
+                        <p className="text-sm text-destructive mt-1">
+                          {errors.webhookUrl.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="defaultBranding">{t('settings.default-branding')}</Label>
                     <Textarea
@@ -149,6 +228,136 @@ export default function Settings() {
                     />
                   </div>
 
+                  <div>
+                    <Label htmlFor="timezone">{t('settings.timezone')}</Label>
+                    <Input
+                      id="timezone"
+                      list="timezone-options"
+                      placeholder="Europe/Moscow"
+                      {...register("timezone")}
+                      data-testid="input-timezone"
+                    />
+                    <datalist id="timezone-options">
+                      {Intl.supportedValuesOf("timeZone").map((zone) => (
+                        <option key={zone} value={zone} />
+                      ))}
+                    </datalist>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {t('settings.timezone-description')}
+                    </p>
+                    {errors.timezone && (
+                      <p className="text-sm text-destructive mt-1">
+                        {errors.timezone.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="translationProvider">{t('settings.translation-provider')}</Label>
+                    <Select
+                      value={watch("translationProvider") || "openai"}
+                      onValueChange={(value) => setValue("translationProvider", value as TranslationProviderName)}
+                    >
+                      <SelectTrigger id="translationProvider" data-testid="select-translation-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="openai">OpenAI</SelectItem>
+                        <SelectItem value="deepl">DeepL</SelectItem>
+                        <SelectItem value="libretranslate">{t('settings.translation-provider-libretranslate')}</SelectItem>
+                        <SelectItem value="none">{t('settings.translation-provider-none')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {translationStatus?.enabled
+                        ? `${t('settings.translation-current')}: ${translationStatus.provider}`
+                        : translationStatus?.reason
+                          ? `${t('settings.translation-disabled')}: ${translationStatus.reason}`
+                          : t('settings.translation-disabled')}
+                    </p>
+                  </div>
+
+                  {watch("translationProvider") !== "none" && (
+                    <div>
+                      <Label htmlFor="translationApiKey">{t('settings.translation-api-key')}</Label>
+                      <Input
+                        id="translationApiKey"
+                        type="password"
+                        placeholder={watch("translationProvider") === "openai" ? t('settings.translation-api-key-openai-default') : ""}
+                        {...register("translationApiKey", {
+                          setValueAs: (value) => value === "" ? null : value,
+                        })}
+                        data-testid="input-translation-api-key"
+                      />
+                    </div>
+                  )}
+
+                  {watch("translationProvider") === "libretranslate" && (
+                    <div>
+                      <Label htmlFor="translationApiUrl">{t('settings.translation-api-url')}</Label>
+                      <Input
+                        id="translationApiUrl"
+                        placeholder="https://translate.example.com"
+                        {...register("translationApiUrl", {
+                          setValueAs: (value) => value === "" ? null : value,
+                        })}
+                        data-testid="input-translation-api-url"
+                      />
+                      {errors.translationApiUrl && (
+                        <p className="text-sm text-destructive mt-1">
+                          {errors.translationApiUrl.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {watch("translationProvider") === "openai" && (
+                    <div>
+                      <Label htmlFor="translationMonthlyBudgetUsd">{t('settings.translation-budget')}</Label>
+                      <Input
+                        id="translationMonthlyBudgetUsd"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder={t('settings.translation-budget-unlimited')}
+                        {...register("translationMonthlyBudgetUsd", {
+                          setValueAs: (value) => value === "" || value === null ? null : Number(value),
+                        })}
+                        data-testid="input-translation-budget"
+                      />
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {t('settings.translation-budget-description')}
+                      </p>
+                      {errors.translationMonthlyBudgetUsd && (
+                        <p className="text-sm text-destructive mt-1">
+                          {errors.translationMonthlyBudgetUsd.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div>
+                    <Label htmlFor="webParserMaxPages">{t('settings.web-parser-max-pages')}</Label>
+                    <Input
+                      id="webParserMaxPages"
+                      type="number"
+                      min={1}
+                      max={50}
+                      {...register("webParserMaxPages", {
+                        setValueAs: (value) => value === "" ? undefined : Number(value),
+                      })}
+                      data-testid="input-web-parser-max-pages"
+                    />
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {t('settings.web-parser-max-pages-description')}
+                    </p>
+                    {errors.webParserMaxPages && (
+                      <p className="text-sm text-destructive mt-1">
+                        {errors.webParserMaxPages.message}
+                      </p>
+                    )}
+                  </div>
+
                   {/* Bot Status */}
                   {botStatus !== 'idle' && (
                     <div className="space-y-2">
@@ -191,6 +400,8 @@ export default function Settings() {
                 </form>
               </CardContent>
             </Card>
+
+            <BotsSettings />
           </div>
         </main>
       </div>
@@ -16,7 +16,8 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertWebSourceSchema, type WebSource, type InsertWebSource } from "@shared/schema";
+import { insertWebSourceSchema, type Glossary, type WebSource, type InsertWebSource } from "@shared/schema";
+import { DEFAULT_TARGET_LANGUAGE, isLanguageCode, languageCodes, languageNames, type LanguageCode } from "@shared/languages";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { ParseStatusDisplay } from "@/components/ParseStatusDisplay";
@@ -35,6 +36,10 @@ export default function WebSources() {
     queryKey: ['/api/web-sources'],
   });
 
+  const { data: glossaries = [] } = useQuery<Glossary[]>({
+    queryKey: ['/api/glossaries'],
+  });
+
   // Create web source mutation
   const createWebSourceMutation = useMutation({
     mutationFn: (data: CreateWebSourceFormData) =>
@@ -126,6 +131,7 @@ export default function WebSources() {
       selector: '',
       isActive: true,
       parseInterval: 60,
+      targetLanguage: DEFAULT_TARGET_LANGUAGE,
     },
   });
 
@@ -151,6 +157,8 @@ export default function WebSources() {
       selector: webSource.selector || '',
       isActive: webSource.isActive,
       parseInterval: webSource.parseInterval,
+      targetLanguage: webSource.targetLanguage as LanguageCode | null,
+      glossaryId: webSource.glossaryId,
     });
   };
 
@@ -287,6 +295,64 @@ export default function WebSources() {
                       )}
                     />
                     
+                    <FormField
+                      control={createForm.control}
+                      name="targetLanguage"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Translate To</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value ?? "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-web-source-language">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Keep original language</SelectItem>
+                              {languageCodes.map((code) => (
+                                <SelectItem key={code} value={code}>
+                                  {languageNames[code].english}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={createForm.control}
+                      name="glossaryId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Glossary</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value ?? "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-web-source-glossary">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No glossary</SelectItem>
+                              {glossaries.map((glossary) => (
+                                <SelectItem key={glossary.id} value={glossary.id}>
+                                  {glossary.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     <FormField
                       control={createForm.control}
                       name="isActive"
@@ -464,6 +530,13 @@ export default function WebSources() {
                       <span className="font-medium">Interval:</span> {webSource.parseInterval} minutes
                     </div>
                     
+                    <div className="text-sm text-muted-foreground">
+                      <span className="font-medium">Translate to:</span>{' '}
+                      {webSource.targetLanguage && isLanguageCode(webSource.targetLanguage)
+                        ? languageNames[webSource.targetLanguage].english
+                        : 'Original language'}
+                    </div>
+                    
                     {webSource.lastParsed && (
                       <div className="text-sm text-muted-foreground">
                         <span className="font-medium">Last parsed:</span>{' '}
@@ -576,6 +649,64 @@ export default function WebSources() {
                       )}
                     />
                     
+                    <FormField
+                      control={editForm.control}
+                      name="targetLanguage"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Translate To</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value ?? "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-edit-web-source-language">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Keep original language</SelectItem>
+                              {languageCodes.map((code) => (
+                                <SelectItem key={code} value={code}>
+                                  {languageNames[code].english}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={editForm.control}
+                      name="glossaryId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Glossary</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value ?? "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-edit-web-source-glossary">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No glossary</SelectItem>
+                              {glossaries.map((glossary) => (
+                                <SelectItem key={glossary.id} value={glossary.id}>
+                                  {glossary.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     <FormField
                       control={editForm.control}
                       name="isActive"
@@ -4,6 +4,7 @@ import { createServer } from "http";
 import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import type { BotMode } from "@shared/schema";
 
 const app = express();
 
@@ -80,6 +81,11 @@ app.use((req, res, next) => {
     
     try {
       log("🔧 Starting background services...");
+
+      // Choose the translation provider before the parsers start translating
+      const { storage } = await import("./storage");
+      const { translationService } = await import("./services/translationService");
+      translationService.configure(await storage.getSettings());
       
       // Start web channel parsing service
       const { webChannelParserService } = await import("./services/webChannelParser");
@@ -92,54 +98,52 @@ app.use((req, res, next) => {
       // Start scheduler service
       const { schedulerService } = await import("./services/scheduler");
       schedulerService.startMonitoring().catch(err => log("Scheduler error:", String(err)));
+
+      // Start channel pair health checks
+      const { healthCheckerService } = await import("./services/healthChecker");
+      healthCheckerService.startMonitoring().catch(err => log("Health checker error:", String(err)));
+
+      // Start daily subscriber snapshots
+      const { subscriberTracker } = await import("./services/subscriberTracker");
+      subscriberTracker.startTracking().catch(err => log("Subscriber tracker error:", String(err)));
       
       // Initialize Telegram bot if settings exist
       try {
         const { storage } = await import("./storage");
         const { telegramService } = await import("./services/telegram");
+        const { ingestionService } = await import("./services/ingestion");
+
+        // Registered up front so a bot configured later from Settings receives updates too
+        telegramService.setUpdateHandlers(async (message) => {
+          // Handle new message from monitored channels
+          const incoming = ingestionService.fromTelegramMessage(message, 'bot');
+          if (!incoming) return;
+
+          try {
+            await ingestionService.ingest(incoming);
+          } catch (error) {
+            log("Error processing message:", String(error));
+          }
+        }, async (message) => {
+          try {
+            const { postSyncService } = await import("./services/postSyncService");
+            await postSyncService.handleSourceEdit(message);
+          } catch (error) {
+            log("Error processing edited message:", String(error));
+          }
+        });
         
         const settings = await storage.getSettings();
         if (settings?.botToken) {
           const success = await telegramService.initializeBot(settings.botToken);
           if (success) {
-            await telegramService.startPolling(async (message) => {
-              // Handle new message from monitored channels
-              const channelPairs = await storage.getChannelPairs();
-              
-              const matchingPairs = channelPairs.filter(pair => {
-                // Remove @ symbol for comparison if present
-                const sourceUsername = pair.sourceUsername.replace('@', '');
-                const messageUsername = message.chat.username;
-                
-                const sourceMatch = sourceUsername === messageUsername;
-                return sourceMatch && pair.status === 'active';
-              });
-              
-              for (const pair of matchingPairs) {
-                try {
-                  // Create post record
-                  const post = await storage.createPost({
-                    channelPairId: pair.id,
-                    originalPostId: message.message_id.toString(),
-                    content: message.text || message.caption || '',
-                    mediaUrls: message.photo ? [message.photo[message.photo.length - 1].file_id] : [],
-                    status: 'pending',
-                  });
-
-                  // Log activity
-                  await storage.createActivityLog({
-                    type: 'post_detected',
-                    description: `New post detected from ${pair.sourceName}`,
-                    channelPairId: pair.id,
-                    postId: post.id,
-                  });
-                } catch (error) {
-                  log("Error processing message:", String(error));
-                }
-              }
-            });
+            await telegramService.setUpdateMode((settings.botMode as BotMode) || 'polling', settings.webhookUrl);
           }
         }
+
+        const { botRegistry } = await import("./services/botRegistry");
+        await botRegistry.loadBots();
+        await botRegistry.checkMain();
       } catch (error) {
         log("Failed to initialize bot:", String(error));
       }
@@ -1,18 +1,35 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import path from "path";
 import fs from "fs";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { telegramService } from "./services/telegram";
 import { schedulerService } from "./services/scheduler";
+import { postSyncService } from "./services/postSyncService";
+import { outboundQueue } from "./services/outboundQueue";
+import { contentFilterService } from "./services/contentFilter";
+import { imageProcessor } from "./services/imageProcessor";
+import { logoStorage, MAX_LOGO_SIZE } from "./services/logoStorage";
 import { channelParserService } from "./services/channelParser";
 import { webChannelParserService } from "./services/webChannelParser";
+import { historyImportService } from "./services/historyImport";
+import { ingestionService } from "./services/ingestion";
+import { botRegistry } from "./services/botRegistry";
+import { healthCheckerService } from "./services/healthChecker";
+import { subscriberTracker } from "./services/subscriberTracker";
 import { webSourceParserService } from "./services/webSourceParser";
 import { translationService } from "./services/translationService";
 import { activationService } from "./services/activationService";
 import { activationRateLimiter, apiRateLimiter, extractUserIP } from "./middleware/rateLimiting";
 import { requireActivation, checkActivationSoft, requireActivationForPremium, type AuthenticatedRequest } from "./middleware/activationAuth";
-import { insertChannelPairSchema, insertSettingsSchema, insertScheduledPostSchema, insertDraftPostSchema, insertWebSourceSchema, insertProjectSchema, insertProjectAgentSchema, insertAgentConversationSchema, insertProjectPostSchema, type ActivationRequest, type ActivationResponse } from "@shared/schema";
+import { insertChannelPairSchema, insertSettingsSchema, insertScheduledPostSchema, insertDraftPostSchema, insertWebSourceSchema, insertProjectSchema, insertProjectAgentSchema, insertAgentConversationSchema, insertProjectPostSchema, insertBotSchema, insertGlossarySchema, type ActivationRequest, type BotMode, type ActivationResponse } from "@shared/schema";
+import { contentFiltersSchema, normalizeContentFilters } from "@shared/filters";
+import { imagePipelineSchema } from "@shared/imagePipeline";
+import { historyImportOptionsSchema } from "@shared/historyImport";
+import { analyticsFilterSchema } from "@shared/analytics";
+import { DEFAULT_TIME_ZONE, statsWindows } from "@shared/timezone";
+import { resolveTargetLanguage } from "@shared/languages";
+import { mergeGlossaryTerms, parseGlossaryCsv } from "@shared/glossary";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -237,6 +254,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/settings", async (req, res) => {
     try {
       const validatedSettings = insertSettingsSchema.parse(req.body);
+      const currentSettings = await storage.getSettings();
+      const botMode = (validatedSettings.botMode || currentSettings?.botMode || 'polling') as BotMode;
+      const webhookUrl = validatedSettings.webhookUrl !== undefined ? validatedSettings.webhookUrl : currentSettings?.webhookUrl;
+
+      if (botMode === 'webhook' && !webhookUrl) {
+        return res.status(400).json({ message: "Webhook mode requires a public HTTPS URL" });
+      }
       
       // If bot token is provided, initialize Telegram service
       if (validatedSettings.botToken) {
@@ -244,9 +268,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!success) {
           return res.status(400).json({ message: "Invalid Telegram bot token" });
         }
+
+        // Applied before saving, so a webhook Telegram rejects does not get persisted
+        try {
+          await telegramService.setUpdateMode(botMode, webhookUrl);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error('Failed to switch bot update mode:', errorMessage);
+          return res.status(400).json({ message: `Failed to switch to ${botMode} mode: ${errorMessage}` });
+        }
       }
       
       const settings = await storage.updateSettings(validatedSettings);
+      if (validatedSettings.botToken) {
+        await botRegistry.checkMain();
+      }
+      translationService.configure(settings);
       
       // Start monitoring if we have a valid bot token
       if (settings.botToken) {
@@ -260,6 +297,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Start web source parsing service for RSS/HTML content
         await webSourceParserService.startParsing();
+
+        await healthCheckerService.startMonitoring();
+        await subscriberTracker.startTracking();
         
         console.log('🚀 Channel monitoring, parsing and web scraping services started');
       }
@@ -270,6 +310,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bots routes
+  app.get("/api/bots", async (req, res) => {
+    try {
+      res.json(await botRegistry.getStatuses());
+    } catch (error) {
+      console.error('Error getting bots:', error);
+      res.status(500).json({ message: "Failed to get bots" });
+    }
+  });
+
+  app.post("/api/bots", async (req, res) => {
+    try {
+      const validatedBot = insertBotSchema.parse(req.body);
+      const bot = await botRegistry.addBot(validatedBot);
+
+      await storage.createActivityLog({
+        type: 'bot_added',
+        description: `Bot @${bot.username} added`,
+        metadata: { botId: bot.id },
+      });
+
+      const { token, ...botStatus } = bot;
+      res.status(201).json({ ...botStatus, isMain: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error adding bot:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to add bot" });
+    }
+  });
+
+  app.post("/api/bots/check", async (req, res) => {
+    try {
+      res.json(await botRegistry.checkAll());
+    } catch (error) {
+      console.error('Error checking bots:', error);
+      res.status(500).json({ message: "Failed to check bots" });
+    }
+  });
+
+  app.delete("/api/bots/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const channelPairs = await storage.getChannelPairs();
+      const usedBy = channelPairs.filter(pair => pair.botId === id);
+      if (usedBy.length > 0) {
+        return res.status(409).json({
+          message: `Bot is used by ${usedBy.map(pair => pair.sourceName).join(", ")}`,
+        });
+      }
+
+      const deleted = await botRegistry.removeBot(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Bot not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting bot:', error);
+      res.status(500).json({ message: "Failed to delete bot" });
+    }
+  });
+
+  // Glossaries routes
+  app.get("/api/glossaries", async (req, res) => {
+    try {
+      res.json(await storage.getGlossaries());
+    } catch (error) {
+      console.error('Error getting glossaries:', error);
+      res.status(500).json({ message: "Failed to get glossaries" });
+    }
+  });
+
+  app.post("/api/glossaries", async (req, res) => {
+    try {
+      const glossary = await storage.createGlossary(insertGlossarySchema.parse(req.body));
+      res.status(201).json(glossary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error creating glossary:', error);
+      res.status(500).json({ message: "Failed to create glossary" });
+    }
+  });
+
+  app.put("/api/glossaries/:id", async (req, res) => {
+    try {
+      const glossary = await storage.updateGlossary(req.params.id, insertGlossarySchema.partial().parse(req.body));
+      if (!glossary) {
+        return res.status(404).json({ message: "Glossary not found" });
+      }
+
+      await storage.createActivityLog({
+        type: 'glossary_updated',
+        description: `Glossary "${glossary.name}" updated (${glossary.entries.length} terms, ${glossary.doNotTranslate.length} kept untranslated)`,
+        metadata: { glossaryId: glossary.id },
+      });
+      res.json(glossary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error updating glossary:', error);
+      res.status(500).json({ message: "Failed to update glossary" });
+    }
+  });
+
+  // Adds the terms of a CSV file; with replace, the file becomes the whole glossary
+  app.post("/api/glossaries/:id/import", async (req, res) => {
+    try {
+      const { csv, replace } = z.object({
+        csv: z.string().min(1, "CSV is empty"),
+        replace: z.boolean().default(false),
+      }).parse(req.body);
+
+      const existing = await storage.getGlossary(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Glossary not found" });
+      }
+
+      const { errors, ...imported } = parseGlossaryCsv(csv);
+      const terms = replace ? mergeGlossaryTerms({ entries: [], doNotTranslate: [] }, imported) : mergeGlossaryTerms(existing, imported);
+      const glossary = await storage.updateGlossary(existing.id, terms);
+
+      await storage.createActivityLog({
+        type: 'glossary_updated',
+        description: `Imported ${imported.entries.length + imported.doNotTranslate.length} terms into glossary "${existing.name}"${errors.length ? ` (${errors.length} lines skipped)` : ''}`,
+        metadata: { glossaryId: existing.id, replace, errors },
+      });
+
+      res.json({
+        glossary,
+        imported: imported.entries.length + imported.doNotTranslate.length,
+        errors,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error importing glossary:', error);
+      res.status(500).json({ message: "Failed to import glossary" });
+    }
+  });
+
+  app.delete("/api/glossaries/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteGlossary(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Glossary not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting glossary:', error);
+      res.status(500).json({ message: "Failed to delete glossary" });
+    }
+  });
+
   // Channel pairs routes
   app.get("/api/channel-pairs", async (req, res) => {
     try {
@@ -291,6 +489,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const validatedChannelPair = flexibleSchema.parse(req.body);
+      // Optional back-catalog import into drafts, started once the pair exists
+      const importHistory = historyImportOptionsSchema.optional().parse(req.body.importHistory);
       
       // Set default names if not provided
       if (!validatedChannelPair.sourceName) {
@@ -300,10 +500,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedChannelPair.targetName = validatedChannelPair.targetUsername as string;
       }
       
+      if (validatedChannelPair.botId && !(await storage.getBot(validatedChannelPair.botId))) {
+        return res.status(400).json({ message: "Bot not found" });
+      }
+      
       // Try to validate channels with Telegram (but don't fail if it doesn't work)
       try {
-        const sourceInfo = await telegramService.getChannelInfo(validatedChannelPair.sourceUsername as string);
-        const targetInfo = await telegramService.getChannelInfo(validatedChannelPair.targetUsername as string);
+        // The target is checked with the bot that will post to it
+        const bot = botRegistry.get(validatedChannelPair.botId);
+        const sourceInfo = await bot.getChannelInfo(validatedChannelPair.sourceUsername as string);
+        const targetInfo = await bot.getChannelInfo(validatedChannelPair.targetUsername as string);
         
         // Update with actual channel info if successful
         validatedChannelPair.sourceName = sourceInfo.title;
@@ -312,7 +518,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedChannelPair.targetSubscribers = targetInfo.memberCount;
         
         // Check bot permissions on target channel
-        const hasPermissions = await telegramService.checkBotPermissions(targetInfo.id);
+        const hasPermissions = await bot.checkBotPermissions(targetInfo.id);
         if (!hasPermissions) {
           console.warn(`Bot doesn't have admin permissions on ${validatedChannelPair.targetUsername}`);
         }
@@ -332,6 +538,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log('Created channel pair:', channelPair);
+
+      // Surface problems such as missing admin rights on the Channels page right away
+      healthCheckerService.checkPair(channelPair).catch(error => console.error('Initial health check failed:', error));
+
+      if (importHistory) {
+        const importJob = historyImportService.start(channelPair, importHistory);
+        return res.json({ ...channelPair, importJob });
+      }
+
       res.json(channelPair);
     } catch (error) {
       console.error('Error creating channel pair:', error);
@@ -350,6 +565,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate the updates using partial schema
       const validatedUpdates = insertChannelPairSchema.partial().parse(req.body);
       console.log(`✅ Validated updates for channel pair ${id}:`, validatedUpdates);
+
+      if (validatedUpdates.botId && !(await storage.getBot(validatedUpdates.botId))) {
+        return res.status(400).json({ message: "Bot not found" });
+      }
+      if (validatedUpdates.glossaryId && !(await storage.getGlossary(validatedUpdates.glossaryId))) {
+        return res.status(400).json({ message: "Glossary not found" });
+      }
       
       const channelPair = await storage.updateChannelPair(id, validatedUpdates);
       if (!channelPair) {
@@ -408,17 +630,441 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Runs the health checks for one pair right away and returns the result
+  app.post("/api/channel-pairs/:id/health-check", async (req, res) => {
+    try {
+      const channelPair = await storage.getChannelPair(req.params.id);
+      if (!channelPair) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+
+      res.json(await healthCheckerService.checkPair(channelPair));
+    } catch (error) {
+      console.error('Error checking channel pair health:', error);
+      res.status(500).json({ message: "Failed to check channel pair" });
+    }
+  });
+
+  // One-off import of the last N source posts; runs in the background
+  app.post("/api/channel-pairs/:id/backfill", async (req, res) => {
+    try {
+      const { count } = z.object({
+        count: z.number().int().min(1).max(200).default(20),
+      }).parse(req.body);
+
+      const channelPair = await storage.getChannelPair(req.params.id);
+      if (!channelPair) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+
+      if (webChannelParserService.isBackfilling(channelPair.id)) {
+        return res.status(409).json({ message: "Backfill is already running for this channel pair" });
+      }
+
+      webChannelParserService.backfill(channelPair, count).catch(error => {
+        console.error(`❌ Backfill failed for ${channelPair.sourceName}:`, error);
+      });
+
+      res.status(202).json({ message: "Backfill started", count });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to start backfill" });
+    }
+  });
+
+  // Import the source's history into drafts (never publishes)
+  app.post("/api/channel-pairs/:id/import", async (req, res) => {
+    try {
+      const options = historyImportOptionsSchema.parse(req.body);
+
+      const channelPair = await storage.getChannelPair(req.params.id);
+      if (!channelPair) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+
+      if (historyImportService.getJobs(channelPair.id).some(job => job.status === 'running')) {
+        return res.status(409).json({ message: "A history import is already running for this channel pair" });
+      }
+
+      const job = historyImportService.start(channelPair, options);
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to start history import" });
+    }
+  });
+
+  app.get("/api/import-jobs", async (req, res) => {
+    const { channelPairId } = req.query;
+    res.json(historyImportService.getJobs(channelPairId as string | undefined));
+  });
+
+  app.get("/api/import-jobs/:id", async (req, res) => {
+    const job = historyImportService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+    res.json(job);
+  });
+
+  app.post("/api/import-jobs/:id/cancel", async (req, res) => {
+    const job = historyImportService.cancel(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+    res.json(job);
+  });
+
+  // Content filter routes
+  app.get("/api/filters/global", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json(normalizeContentFilters(settings?.globalFilters));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get global filters" });
+    }
+  });
+
+  app.put("/api/filters/global", async (req, res) => {
+    try {
+      const globalFilters = contentFiltersSchema.parse(req.body);
+      const settings = await storage.updateGlobalFilters(globalFilters);
+
+      await storage.createActivityLog({
+        type: 'filters_updated',
+        description: `Global filters updated (${globalFilters.rules.length} rules)`,
+      });
+
+      res.json(normalizeContentFilters(settings.globalFilters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update global filters" });
+    }
+  });
+
+  app.get("/api/channel-pairs/:id/filters", async (req, res) => {
+    try {
+      const pair = await storage.getChannelPair(req.params.id);
+      if (!pair) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+      res.json(normalizeContentFilters(pair.contentFilters));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get channel pair filters" });
+    }
+  });
+
+  app.put("/api/channel-pairs/:id/filters", async (req, res) => {
+    try {
+      const contentFilters = contentFiltersSchema.parse(req.body);
+      const existing = await storage.getChannelPair(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+
+      // Keep options stored next to the rules (e.g. addWatermark) that the editor does not send
+      const pair = await storage.updateChannelPair(req.params.id, {
+        contentFilters: { ...existing.contentFilters, ...contentFilters },
+      });
+
+      await storage.createActivityLog({
+        type: 'filters_updated',
+        description: `Filters for ${existing.sourceName} → ${existing.targetName} updated (${contentFilters.rules.length} rules)`,
+        channelPairId: existing.id,
+      });
+
+      res.json(normalizeContentFilters(pair?.contentFilters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update channel pair filters" });
+    }
+  });
+
+  // Dry-run filter rules against recent posts and drafts
+  app.post("/api/filters/test", async (req, res) => {
+    try {
+      const { filters, channelPairId, limit } = z.object({
+        filters: contentFiltersSchema,
+        channelPairId: z.string().optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+      }).parse(req.body);
+
+      const samples = await contentFilterService.testFilters(filters, channelPairId, limit);
+      res.json(samples);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error('Error testing filters:', error);
+      res.status(500).json({ message: "Failed to test filters" });
+    }
+  });
+
+  // Branding routes (per-pair templates are updated through PUT /api/channel-pairs/:id)
+  app.put("/api/branding/default", async (req, res) => {
+    try {
+      const { header, footer } = z.object({
+        header: z.string().nullable().optional(),
+        footer: z.string().nullable().optional(),
+      }).parse(req.body);
+
+      const settings = await storage.updateDefaultBranding(header || null, footer || null);
+
+      await storage.createActivityLog({
+        type: 'branding_updated',
+        description: 'Default branding template updated',
+      });
+
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update default branding" });
+    }
+  });
+
+  // Renders a branding template around the pair's most recent post
+  app.post("/api/branding/preview", async (req, res) => {
+    try {
+      const { channelPairId, header, footer } = z.object({
+        channelPairId: z.string(),
+        header: z.string().default(''),
+        footer: z.string().default(''),
+      }).parse(req.body);
+
+      const channelPair = await storage.getChannelPair(channelPairId);
+      if (!channelPair) {
+        return res.status(404).json({ message: "Channel pair not found" });
+      }
+
+      const [posts, drafts] = await Promise.all([
+        storage.getPosts(channelPairId),
+        storage.getDraftPosts(channelPairId),
+      ]);
+      const latestPost = posts
+        .filter(post => post.content)
+        .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))[0];
+      const sample = latestPost
+        ? { source: 'post', content: latestPost.content!, originalPostId: latestPost.originalPostId }
+        : drafts[0]
+          ? { source: 'draft', content: drafts[0].content || '', originalPostId: drafts[0].originalPostId }
+          : null;
+
+      const html = await schedulerService.buildPostContent(
+        sample?.content || 'Пример текста поста #пример',
+        channelPair,
+        { originalPostId: sample?.originalPostId },
+        { header, footer }
+      );
+
+      res.json({ html, sample });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error('Error rendering branding preview:', error);
+      res.status(500).json({ message: "Failed to render branding preview" });
+    }
+  });
+
+  // Watermark logos
+  app.get("/api/logos", async (req, res) => {
+    try {
+      res.json(await logoStorage.list());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get logos" });
+    }
+  });
+
+  // The PNG is sent as the raw request body (Content-Type: image/png)
+  app.post("/api/logos", express.raw({ type: "image/png", limit: MAX_LOGO_SIZE }), async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Expected a PNG image with Content-Type image/png" });
+      }
+
+      const logo = await logoStorage.save(req.body);
+
+      await storage.createActivityLog({
+        type: 'logo_uploaded',
+        description: `Watermark logo uploaded (${logo.width}x${logo.height})`,
+        metadata: { name: logo.name },
+      });
+
+      res.status(201).json(logo);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to upload logo" });
+    }
+  });
+
+  app.get("/api/logos/:name", async (req, res) => {
+    const filePath = logoStorage.resolvePath(req.params.name);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return res.status(404).json({ message: "Logo not found" });
+    }
+    res.sendFile(filePath);
+  });
+
+  app.delete("/api/logos/:name", async (req, res) => {
+    try {
+      const channelPairs = await storage.getChannelPairs();
+      const usedBy = channelPairs.filter(pair => pair.imagePipeline?.watermarkLogo === req.params.name);
+      if (usedBy.length > 0) {
+        return res.status(409).json({
+          message: `Logo is used by ${usedBy.map(pair => pair.targetName).join(', ')}`,
+        });
+      }
+
+      const success = await logoStorage.delete(req.params.name);
+      if (!success) {
+        return res.status(404).json({ message: "Logo not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete logo" });
+    }
+  });
+
+  // Returns a sample photo processed with the given pipeline settings (image/jpeg)
+  app.post("/api/image-pipeline/preview", async (req, res) => {
+    try {
+      const pipeline = imagePipelineSchema.parse(req.body);
+      const image = await imageProcessor.renderPreview(pipeline);
+
+      res.type('image/jpeg').send(image);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error('Error rendering image preview:', error);
+      res.status(500).json({ message: "Failed to render image preview" });
+    }
+  });
+
   // Posts routes
   app.get("/api/posts", async (req, res) => {
     try {
-      const { channelPairId } = req.query;
-      const posts = await storage.getPosts(channelPairId as string);
+      const { channelPairId, language } = req.query;
+      const posts = await storage.getPosts(channelPairId as string, language as string | undefined);
       res.json(posts);
     } catch (error) {
       res.status(500).json({ message: "Failed to get posts" });
     }
   });
 
+  // Send a failed (or retry-waiting) post right away
+  app.post("/api/posts/:id/retry", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const post = await storage.getPost(id);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.status !== 'failed' && !(post.status === 'pending' && post.nextAttemptAt)) {
+        return res.status(400).json({ message: "Only failed posts can be retried" });
+      }
+
+      const updated = await schedulerService.publishPostNow(id);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error retrying post:', error);
+      res.status(500).json({ 
+        message: "Failed to retry post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Edit a post that is already published in the target channel
+  app.put("/api/posts/:id/published", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { content } = z.object({ content: z.string().min(1) }).parse(req.body);
+
+      const post = await storage.getPost(id);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.status !== 'posted' || !post.repostedMessages?.length) {
+        return res.status(400).json({ message: "Post has not been published" });
+      }
+
+      const updated = await postSyncService.editPost(post, content);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error editing published post:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ 
+        message: "Failed to edit published post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Delete a published post from the target channel
+  app.delete("/api/posts/:id/published", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const post = await storage.getPost(id);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.status !== 'posted' || !post.repostedMessages?.length) {
+        return res.status(400).json({ message: "Post has not been published" });
+      }
+
+      const updated = await postSyncService.deletePost(post);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error deleting published post:', error);
+      res.status(500).json({ 
+        message: "Failed to delete published post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Activity logs routes
   app.get("/api/activity-logs", async (req, res) => {
     try {
@@ -506,13 +1152,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Analytics routes
   app.get("/api/stats", async (req, res) => {
     try {
-      const stats = await storage.getStats();
-      res.json(stats);
+      const window = z.enum(statsWindows).default('today').parse(req.query.window);
+      const settings = await storage.getSettings();
+      const stats = await storage.getStats(window, settings?.timezone || DEFAULT_TIME_ZONE);
+      const queue = outboundQueue.getStats();
+      const subscriberGrowth = await subscriberTracker.getWeeklyTargetGrowth();
+      res.json({ ...stats, subscriberGrowth, queueDepth: queue.depth, queueActive: queue.active });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to get stats" });
     }
   });
 
+  app.get("/api/analytics/subscribers", async (req, res) => {
+    try {
+      const days = z.coerce.number().int().min(2).max(365).default(30).parse(req.query.days);
+      res.json(await subscriberTracker.getTargetGrowth(days));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting subscriber growth:', error);
+      res.status(500).json({ message: "Failed to get subscriber growth" });
+    }
+  });
+
+  app.get("/api/analytics/posts-per-day", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getPostsPerDay(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting posts per day:', error);
+      res.status(500).json({ message: "Failed to get posts per day" });
+    }
+  });
+
+  app.get("/api/analytics/outcomes", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getPostOutcomes(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting post outcomes:', error);
+      res.status(500).json({ message: "Failed to get post outcomes" });
+    }
+  });
+
+  app.get("/api/analytics/drafts", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getDraftFunnel(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting draft statistics:', error);
+      res.status(500).json({ message: "Failed to get draft statistics" });
+    }
+  });
+
+  app.get("/api/analytics/translations", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getTranslationCounts(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting translation counts:', error);
+      res.status(500).json({ message: "Failed to get translation counts" });
+    }
+  });
+
+  app.get("/api/analytics/failure-reasons", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getTopFailureReasons(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting failure reasons:', error);
+      res.status(500).json({ message: "Failed to get failure reasons" });
+    }
+  });
+
+  app.get("/api/analytics/languages", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      const settings = await storage.getSettings();
+      res.json(await storage.getSourceLanguages(filter, settings?.timezone || DEFAULT_TIME_ZONE));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting source languages:', error);
+      res.status(500).json({ message: "Failed to get source languages" });
+    }
+  });
+
+  app.get("/api/analytics/translation-spend", async (req, res) => {
+    try {
+      const filter = analyticsFilterSchema.parse(req.query);
+      res.json(await translationService.getSpend(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error getting translation spend:', error);
+      res.status(500).json({ message: "Failed to get translation spend" });
+    }
+  });
+
   // Manual parsing trigger endpoint
   app.post("/api/parse-channel/:username", async (req, res) => {
     try {
@@ -540,41 +1303,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Telegram webhook routes
+  app.get("/api/telegram/update-mode", async (req, res) => {
+    res.json(telegramService.getUpdateMode());
+  });
+
   app.post("/api/telegram/webhook", async (req, res) => {
+    // Only Telegram knows the secret registered with setWebhook
+    if (!telegramService.verifyWebhookSecret(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+      return res.status(401).json({ message: "Invalid webhook secret token" });
+    }
+
     try {
+      if (req.body.edited_channel_post) {
+        await postSyncService.handleSourceEdit(req.body.edited_channel_post);
+        return res.json({ success: true });
+      }
+
       const message = req.body.message || req.body.channel_post;
       
+      // Other update types are acknowledged, or Telegram would keep redelivering them
       if (!message) {
-        return res.status(400).json({ message: "No message data" });
+        return res.json({ success: true });
       }
 
-      // Find matching channel pairs for this source channel
-      const channelPairs = await storage.getChannelPairs();
-      const matchingPairs = channelPairs.filter(pair => 
-        pair.sourceUsername === message.chat.username && 
-        pair.status === 'active'
-      );
-
-      for (const pair of matchingPairs) {
-        // Create post record
-        const post = await storage.createPost({
-          channelPairId: pair.id,
-          originalPostId: message.message_id.toString(),
-          content: message.text || message.caption || '',
-          mediaUrls: message.photo ? [message.photo[message.photo.length - 1].file_id] : [],
-          status: 'pending',
-        });
-
-        // Schedule the post based on delay settings
-        await schedulerService.schedulePost(post.id, pair.postingDelay || 0);
-
-        // Log activity
-        await storage.createActivityLog({
-          type: 'post_detected',
-          description: `New post detected from ${pair.sourceName}`,
-          channelPairId: pair.id,
-          postId: post.id,
-        });
+      const incoming = ingestionService.fromTelegramMessage(message, 'webhook');
+      if (incoming) {
+        await ingestionService.ingest(incoming);
       }
 
       res.json({ success: true });
@@ -702,6 +1456,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/scheduled-posts/:id/retry", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const scheduledPost = await storage.getScheduledPost(id);
+      if (!scheduledPost) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (scheduledPost.status !== 'failed' && !(scheduledPost.status === 'scheduled' && scheduledPost.nextAttemptAt)) {
+        return res.status(400).json({ message: "Only failed scheduled posts can be retried" });
+      }
+
+      const updated = await schedulerService.publishScheduledPostNow(id);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error retrying scheduled post:', error);
+      res.status(500).json({ 
+        message: "Failed to retry scheduled post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.put("/api/scheduled-posts/:id/published", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { content } = z.object({ content: z.string().min(1) }).parse(req.body);
+
+      const scheduledPost = await storage.getScheduledPost(id);
+      if (!scheduledPost) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (scheduledPost.status !== 'published' || !scheduledPost.publishedMessages?.length) {
+        return res.status(400).json({ message: "Scheduled post has not been published" });
+      }
+
+      const updated = await postSyncService.editScheduledPost(scheduledPost, content);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error editing published scheduled post:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ 
+        message: "Failed to edit published scheduled post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.delete("/api/scheduled-posts/:id/published", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const scheduledPost = await storage.getScheduledPost(id);
+      if (!scheduledPost) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (scheduledPost.status !== 'published' || !scheduledPost.publishedMessages?.length) {
+        return res.status(400).json({ message: "Scheduled post has not been published" });
+      }
+
+      const updated = await postSyncService.deleteScheduledPost(scheduledPost);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error deleting published scheduled post:', error);
+      res.status(500).json({ 
+        message: "Failed to delete published scheduled post",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Projects endpoints
   app.get("/api/projects", checkActivationSoft, async (req, res) => {
     try {
@@ -1074,7 +1904,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/draft-posts", async (req, res) => {
     try {
       const channelPairId = req.query.channelPairId as string;
-      const drafts = await storage.getDraftPosts(channelPairId);
+      const language = req.query.language as string | undefined;
+      const drafts = await storage.getDraftPosts(channelPairId, language);
       res.json(drafts);
     } catch (error) {
       res.status(500).json({ message: "Failed to get draft posts" });
@@ -1246,10 +2077,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: `Draft post published: "${draft.content?.substring(0, 50)}..."`,
         channelPairId: draft.channelPairId,
       });
+
+      // Send right away ahead of automatic reposts; failures go through the retry policy
+      const publishedPost = await schedulerService.publishScheduledPostNow(scheduledPost.id);
       
       res.json({ 
         message: "Draft post published successfully",
-        scheduledPost 
+        scheduledPost: publishedPost || scheduledPost
       });
     } catch (error) {
       console.error('Error publishing draft post:', error);
@@ -1282,6 +2116,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/web-sources", async (req, res) => {
     try {
       const validatedWebSource = insertWebSourceSchema.parse(req.body);
+      if (validatedWebSource.glossaryId && !(await storage.getGlossary(validatedWebSource.glossaryId))) {
+        return res.status(400).json({ message: "Glossary not found" });
+      }
       const webSource = await storage.createWebSource(validatedWebSource);
       
       // Log activity
@@ -1306,6 +2143,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/web-sources/:id", async (req, res) => {
     try {
       const validatedUpdates = insertWebSourceSchema.partial().parse(req.body);
+      if (validatedUpdates.glossaryId && !(await storage.getGlossary(validatedUpdates.glossaryId))) {
+        return res.status(400).json({ message: "Glossary not found" });
+      }
       const webSource = await storage.updateWebSource(req.params.id, validatedUpdates);
       
       if (!webSource) {
@@ -1378,16 +2218,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/translation/status", (req, res) => {
+    res.json(translationService.getStatus());
+  });
+
   // Test translation endpoint
   app.post("/api/test-translation", async (req, res) => {
     try {
-      const { text } = req.body;
+      const { text, targetLanguage, glossaryId } = req.body;
       
       if (!text) {
         return res.status(400).json({ message: "Text is required" });
       }
 
-      const translatedText = await translationService.translateToRussian(text);
+      if (!translationService.isEnabled()) {
+        const { reason } = translationService.getStatus();
+        return res.status(400).json({ message: reason ? `Translation is disabled: ${reason}` : "Translation is disabled" });
+      }
+
+      const translatedText = await translationService.translate(text, resolveTargetLanguage(targetLanguage), {
+        source: 'test',
+        glossaryId: typeof glossaryId === 'string' ? glossaryId : null,
+      });
       
       res.json({ 
         original: text,
@@ -0,0 +1,117 @@
+import { storage } from '../storage';
+import { TelegramService, telegramService } from './telegram';
+import type { Bot, BotStatus, ChannelPair, InsertBot } from '@shared/schema';
+
+type BotHealth = Pick<BotStatus, 'username' | 'status' | 'lastError' | 'lastCheckedAt'>;
+
+/**
+ * Keeps one TelegramService per bot from the bots table, next to the main bot
+ * (`telegramService`, configured by settings.botToken). Only the main bot receives
+ * updates; the others are used to post into the targets they administer.
+ */
+export class BotRegistry {
+  private services = new Map<string, TelegramService>();
+  private mainHealth: BotHealth = { username: null, status: 'unknown', lastError: null, lastCheckedAt: null };
+
+  async loadBots(): Promise<void> {
+    const bots = await storage.getBots();
+    for (const bot of bots) {
+      await this.start(bot);
+    }
+    console.log(`🤖 Loaded ${bots.length} additional bots`);
+  }
+
+  /**
+   * Validates the token with getMe before anything is stored.
+   */
+  async addBot(insertBot: InsertBot): Promise<Bot> {
+    const service = new TelegramService();
+    if (!(await service.initializeBot(insertBot.token))) {
+      throw new Error('Invalid Telegram bot token');
+    }
+
+    const created = await storage.createBot(insertBot);
+    this.services.set(created.id, service);
+    return await this.checkBot(created);
+  }
+
+  async removeBot(id: string): Promise<boolean> {
+    this.services.delete(id);
+    return await storage.deleteBot(id);
+  }
+
+  /**
+   * @param botId Bot from the bots table, or null/undefined for the main bot
+   */
+  get(botId?: string | null): TelegramService {
+    if (!botId) return telegramService;
+
+    const service = this.services.get(botId);
+    // Falling back to the main bot would post under the wrong account, so fail instead
+    if (!service) throw new Error(`Bot ${botId} is not loaded`);
+    return service;
+  }
+
+  forChannelPair(channelPair: ChannelPair): TelegramService {
+    return this.get(channelPair.botId);
+  }
+
+  /**
+   * Runs getMe for every bot and stores the result.
+   */
+  async checkAll(): Promise<BotStatus[]> {
+    await this.checkMain();
+    for (const bot of await storage.getBots()) {
+      await this.checkBot(bot);
+    }
+    return await this.getStatuses();
+  }
+
+  /**
+   * Last known health of every bot, main bot first. Does not call Telegram.
+   */
+  async getStatuses(): Promise<BotStatus[]> {
+    const bots = await storage.getBots();
+    return [
+      { id: null, name: null, isMain: true, ...this.mainHealth },
+      ...bots.map(({ token, createdAt, ...bot }) => ({ ...bot, isMain: false })),
+    ];
+  }
+
+  private async start(bot: Bot): Promise<void> {
+    const service = new TelegramService();
+    // Kept even when getMe fails, so a temporary outage does not drop the bot until restart
+    await service.initializeBot(bot.token);
+    this.services.set(bot.id, service);
+    await this.checkBot(bot);
+  }
+
+  private async checkBot(bot: Bot): Promise<Bot> {
+    const service = this.services.get(bot.id);
+    const health = service
+      ? await this.probe(service)
+      : { username: bot.username, status: 'error', lastError: 'Bot is not loaded', lastCheckedAt: new Date() };
+
+    const updated = await storage.updateBot(bot.id, { ...health, username: health.username ?? bot.username });
+    return updated || bot;
+  }
+
+  async checkMain(): Promise<void> {
+    this.mainHealth = telegramService.getBot()
+      ? await this.probe(telegramService)
+      : { username: null, status: 'error', lastError: 'Bot token is not configured', lastCheckedAt: new Date() };
+  }
+
+  private async probe(service: TelegramService): Promise<BotHealth> {
+    try {
+      const me = await service.getMe();
+      return { username: me.username ?? null, status: 'ok', lastError: null, lastCheckedAt: new Date() };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Bot health check failed:', errorMessage);
+      return { username: null, status: 'error', lastError: errorMessage, lastCheckedAt: new Date() };
+    }
+  }
+}
+
+export const botRegistry = new BotRegistry();
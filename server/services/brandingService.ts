@@ -0,0 +1,98 @@
+import { storage } from '../storage';
+import { messageFormatter } from './messageFormatter';
+import type { BrandingPlaceholder, BrandingTemplate } from '@shared/branding';
+import { DEFAULT_TIME_ZONE } from '@shared/timezone';
+import type { ChannelPair } from '@shared/schema';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const HASHTAG_PATTERN = new RegExp('#[\\p{L}\\p{N}_]+', 'gu');
+
+export interface BrandingContext {
+  content: string; // Post text, used for {hashtags}
+  originalPostId?: string | null; // Source message ID, if the post came from the source channel
+  date?: Date | null;
+}
+
+export class BrandingService {
+  /**
+   * Returns the pair's own header/footer, or the global default when the pair has
+   * neither. Returns null when no branding is configured at all.
+   */
+  async resolveTemplate(channelPair: ChannelPair): Promise<BrandingTemplate | null> {
+    if (channelPair.brandingHeader || channelPair.customBranding) {
+      return {
+        header: channelPair.brandingHeader || '',
+        footer: channelPair.customBranding || '',
+      };
+    }
+
+    const settings = await storage.getSettings();
+    if (settings?.defaultBrandingHeader || settings?.defaultBranding) {
+      return {
+        header: settings.defaultBrandingHeader || '',
+        footer: settings.defaultBranding || '',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Wraps already sanitized post HTML with the rendered header and footer.
+   * @param template Overrides the configured template (used for previews)
+   */
+  async apply(
+    html: string,
+    channelPair: ChannelPair,
+    context: BrandingContext,
+    template?: BrandingTemplate | null
+  ): Promise<string> {
+    const resolved = template === undefined ? await this.resolveTemplate(channelPair) : template;
+    if (!resolved) return html;
+
+    const settings = await storage.getSettings();
+    const timeZone = settings?.timezone || DEFAULT_TIME_ZONE;
+    const header = this.render(resolved.header, channelPair, context, timeZone);
+    const footer = this.render(resolved.footer, channelPair, context, timeZone);
+
+    return [header, html, footer].filter(part => part.trim().length > 0).join('\n\n');
+  }
+
+  /**
+   * Fills in placeholders and sanitizes the result. Placeholder values are escaped, so
+   * only the template itself can contain formatting.
+   * @param timeZone Workspace time zone, in which {date} is rendered
+   */
+  render(template: string, channelPair: ChannelPair, context: BrandingContext, timeZone: string = DEFAULT_TIME_ZONE): string {
+    if (!template) return '';
+
+    const values = this.getPlaceholderValues(channelPair, context, timeZone);
+    const filled = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in values ? this.escape(values[name as BrandingPlaceholder]) : placeholder
+    );
+
+    return messageFormatter.sanitizeHtml(filled).trim();
+  }
+
+  private getPlaceholderValues(channelPair: ChannelPair, context: BrandingContext, timeZone: string): Record<BrandingPlaceholder, string> {
+    const sourceUsername = channelPair.sourceUsername.replace('@', '');
+    const sourceLink = `https://t.me/${sourceUsername}`;
+    const text = context.content.replace(/<[^>]*>/g, ' '); // Ignore '#' inside link URLs
+    const hashtags = Array.from(new Set(text.match(HASHTAG_PATTERN) || []));
+
+    return {
+      source_name: channelPair.sourceName,
+      source_link: sourceLink,
+      original_url: context.originalPostId ? `${sourceLink}/${context.originalPostId}` : sourceLink,
+      date: (context.date || new Date()).toLocaleDateString('ru-RU', { timeZone }),
+      target_name: channelPair.targetName,
+      hashtags: hashtags.join(' '),
+    };
+  }
+
+  private escape(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
+
+export const brandingService = new BrandingService();
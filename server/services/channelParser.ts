@@ -1,6 +1,6 @@
 import { telegramService } from './telegram';
 import { storage } from '../storage';
-import { schedulerService } from './scheduler';
+import { ingestionService } from './ingestion';
 import type { ChannelPair } from '@shared/schema';
 
 export class ChannelParserService {
@@ -151,62 +151,10 @@ export class ChannelParserService {
   }
 
   private async processMessage(message: any, channelPair: ChannelPair): Promise<void> {
-    try {
-      console.log(`📝 Processing message ${message.message_id} from ${channelPair.sourceName}`);
-      
-      // Create post record
-      const post = await storage.createPost({
-        channelPairId: channelPair.id,
-        originalPostId: message.message_id.toString(),
-        content: message.text || message.caption || '',
-        mediaUrls: this.extractMediaUrls(message),
-        status: 'pending',
-      });
-
-      console.log(`✅ Created post record: ${post.id}`);
-
-      // Schedule the post
-      await schedulerService.schedulePost(post.id, channelPair.postingDelay || 0);
-
-      // Log activity
-      await storage.createActivityLog({
-        type: 'post_detected',
-        description: `New post parsed from ${channelPair.sourceName}`,
-        channelPairId: channelPair.id,
-        postId: post.id,
-      });
-
-      console.log(`🎯 Scheduled post from ${channelPair.sourceName} to ${channelPair.targetName}`);
-
-    } catch (error) {
-      console.error(`❌ Error processing message:`, error);
-      
-      await storage.createActivityLog({
-        type: 'post_failed',
-        description: `Failed to process message: ${error}`,
-        channelPairId: channelPair.id,
-      });
-    }
-  }
+    const incoming = ingestionService.fromTelegramMessage(message, 'bot');
+    if (!incoming) return;
 
-  private extractMediaUrls(message: any): string[] {
-    const mediaUrls: string[] = [];
-    
-    if (message.photo && message.photo.length > 0) {
-      // Get the largest photo
-      const photo = message.photo[message.photo.length - 1];
-      mediaUrls.push(photo.file_id);
-    }
-    
-    if (message.video) {
-      mediaUrls.push(message.video.file_id);
-    }
-    
-    if (message.document) {
-      mediaUrls.push(message.document.file_id);
-    }
-    
-    return mediaUrls;
+    await ingestionService.ingestForPair(channelPair, incoming);
   }
 
   // Method to manually trigger parsing for a specific channel
@@ -0,0 +1,272 @@
+import { storage } from '../storage';
+import { languageDetector } from './languageDetector';
+import {
+  normalizeContentFilters,
+  type ContentFilters,
+  type FilterDecision,
+  type FilterResult,
+  type FilterRule,
+  type MatchedRule,
+} from '@shared/filters';
+import { normalizeMediaItems } from '@shared/media';
+import type { ChannelPair, MediaItem } from '@shared/schema';
+
+export interface FilterInput {
+  content: string;
+  media: MediaItem[];
+}
+
+interface ScopedRule {
+  rule: FilterRule;
+  scope: MatchedRule['scope'];
+  index: number;
+}
+
+export interface FilterTestSample {
+  source: 'post' | 'draft';
+  id: string;
+  channelPairId: string | null;
+  createdAt: Date | null;
+  content: string;
+  result: FilterResult;
+}
+
+// Built with the constructor: Unicode property escapes are newer than the compile target
+const HASHTAG_PATTERN = new RegExp('#[\\p{L}\\p{N}_]+', 'gu');
+
+export class ContentFilterService {
+  /**
+   * Runs the global and per-pair filter rules against an incoming post and logs the
+   * decision as filter_applied. Global rules run first.
+   */
+  async applyFilters(channelPair: ChannelPair, input: FilterInput, originalPostId: string): Promise<FilterResult> {
+    const settings = await storage.getSettings();
+    const rules = this.mergeRules(
+      normalizeContentFilters(settings?.globalFilters),
+      normalizeContentFilters(channelPair.contentFilters)
+    );
+
+    const result = this.evaluate(rules, input);
+
+    if (rules.length > 0) {
+      await storage.createActivityLog({
+        type: 'filter_applied',
+        description: this.describeResult(result, channelPair),
+        channelPairId: channelPair.id,
+        metadata: {
+          originalPostId,
+          decision: result.decision,
+          rewritten: result.content !== input.content,
+          matched: result.matched,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Dry-runs filters against the most recent posts and drafts without logging anything.
+   * Pair rules are tested together with the saved global rules; global rules are tested
+   * on their own across all pairs.
+   */
+  async testFilters(filters: ContentFilters, channelPairId: string | undefined, limit: number): Promise<FilterTestSample[]> {
+    let rules: ScopedRule[];
+    if (channelPairId) {
+      const settings = await storage.getSettings();
+      rules = this.mergeRules(normalizeContentFilters(settings?.globalFilters), filters);
+    } else {
+      rules = this.mergeRules(filters, { rules: [] });
+    }
+
+    const [posts, drafts] = await Promise.all([
+      storage.getPosts(channelPairId),
+      storage.getDraftPosts(channelPairId),
+    ]);
+
+    const samples = [
+      ...posts.map(post => ({
+        source: 'post' as const,
+        id: post.id,
+        channelPairId: post.channelPairId,
+        createdAt: post.createdAt,
+        content: post.content || '',
+        media: post.mediaUrls,
+      })),
+      ...drafts.map(draft => ({
+        source: 'draft' as const,
+        id: draft.id,
+        channelPairId: draft.channelPairId,
+        createdAt: draft.createdAt,
+        content: draft.originalContent || draft.content || '',
+        media: draft.mediaUrls,
+      })),
+    ]
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+
+    return samples.map(({ media, ...sample }) => ({
+      ...sample,
+      result: this.evaluate(rules, { content: sample.content, media: normalizeMediaItems(media) }),
+    }));
+  }
+
+  /**
+   * Stores a skipped or drafted message as a "filtered" post so parsers that deduplicate
+   * against the posts table do not pick it up again.
+   */
+  async recordFiltered(channelPair: ChannelPair, originalPostId: string, result: FilterResult): Promise<void> {
+    await storage.createPost({
+      channelPairId: channelPair.id,
+      originalPostId,
+      content: result.content,
+      status: 'filtered',
+      errorMessage: this.describeResult(result, channelPair),
+    });
+  }
+
+  /**
+   * Applies rules in order. Rewrites change the text seen by later rules; "draft" is
+   * remembered but a later "skip" still wins; "skip" stops evaluation.
+   */
+  evaluate(rules: ScopedRule[], input: FilterInput): FilterResult {
+    let content = input.content;
+    let decision: FilterDecision = 'send';
+    const matched: MatchedRule[] = [];
+
+    for (const { rule, scope, index } of rules) {
+      if (!rule.enabled) continue;
+
+      const reason = this.match(rule, content, input.media);
+      if (!reason) continue;
+
+      matched.push({ index, type: rule.type, name: rule.name, action: rule.action, reason, scope });
+
+      if (rule.action === 'skip') {
+        return { decision: 'skip', content, matched };
+      }
+      if (rule.action === 'draft') {
+        decision = 'draft';
+        continue;
+      }
+      content = this.rewrite(rule, content);
+    }
+
+    return { decision, content, matched };
+  }
+
+  private mergeRules(globalFilters: ContentFilters, pairFilters: ContentFilters): ScopedRule[] {
+    return [
+      ...globalFilters.rules.map((rule, index) => ({ rule, scope: 'global' as const, index })),
+      ...pairFilters.rules.map((rule, index) => ({ rule, scope: 'pair' as const, index })),
+    ];
+  }
+
+  /**
+   * @returns Why the rule matched, or null if it did not
+   */
+  private match(rule: FilterRule, content: string, media: MediaItem[]): string | null {
+    const text = content.toLowerCase();
+
+    switch (rule.type) {
+      case 'include_keywords':
+        return rule.keywords.some(keyword => text.includes(keyword.toLowerCase()))
+          ? null
+          : `none of the keywords found: ${rule.keywords.join(', ')}`;
+
+      case 'exclude_keywords': {
+        const found = rule.keywords.filter(keyword => text.includes(keyword.toLowerCase()));
+        return found.length > 0 ? `contains ${found.join(', ')}` : null;
+      }
+
+      case 'regex':
+        return new RegExp(rule.pattern, rule.flags).test(content) ? `matches /${rule.pattern}/${rule.flags}` : null;
+
+      case 'min_length':
+        return content.trim().length < rule.length ? `shorter than ${rule.length} characters` : null;
+
+      case 'max_length':
+        return content.trim().length > rule.length ? `longer than ${rule.length} characters` : null;
+
+      case 'require_media':
+        return media.length === 0 ? 'has no media' : null;
+
+      case 'language': {
+        const { language } = languageDetector.detect(content);
+        if (language === 'unknown') return null; // Nothing to judge (e.g. media without text)
+        return rule.languages.map(code => code.toLowerCase()).includes(language)
+          ? null
+          : `language ${language} not in ${rule.languages.join(', ')}`;
+      }
+
+      case 'hashtags': {
+        const hashtags = this.extractHashtags(content);
+        const missing = rule.required.filter(tag => !hashtags.includes(this.normalizeHashtag(tag)));
+        if (missing.length > 0) return `missing hashtags ${missing.join(', ')}`;
+
+        const blocked = rule.blocked.filter(tag => hashtags.includes(this.normalizeHashtag(tag)));
+        return blocked.length > 0 ? `contains hashtags ${blocked.join(', ')}` : null;
+      }
+    }
+  }
+
+  private rewrite(rule: FilterRule, content: string): string {
+    switch (rule.type) {
+      case 'exclude_keywords':
+        return rule.keywords.reduce(
+          (text, keyword) => text.replace(new RegExp(this.escapeRegExp(keyword), 'gi'), rule.replacement),
+          content
+        );
+
+      case 'regex': {
+        const flags = rule.flags.includes('g') ? rule.flags : rule.flags + 'g';
+        return content.replace(new RegExp(rule.pattern, flags), rule.replacement);
+      }
+
+      case 'max_length': {
+        const cut = content.slice(0, rule.length - 1);
+        const lastSpace = cut.lastIndexOf(' ');
+        return (lastSpace > rule.length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd() + '…';
+      }
+
+      case 'hashtags': {
+        const blocked = rule.blocked.map(tag => this.normalizeHashtag(tag));
+        return content
+          .replace(HASHTAG_PATTERN, tag => blocked.includes(this.normalizeHashtag(tag)) ? '' : tag)
+          .replace(/[ \t]{2,}/g, ' ');
+      }
+
+      default:
+        return content;
+    }
+  }
+
+  private extractHashtags(content: string): string[] {
+    return (content.match(HASHTAG_PATTERN) || []).map(tag => this.normalizeHashtag(tag));
+  }
+
+  private normalizeHashtag(tag: string): string {
+    return tag.replace(/^#/, '').toLowerCase();
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private describeResult(result: FilterResult, channelPair: ChannelPair): string {
+    const reasons = result.matched.map(rule => rule.name || rule.reason).join('; ');
+
+    switch (result.decision) {
+      case 'skip':
+        return `Post from ${channelPair.sourceName} skipped by filters: ${reasons}`;
+      case 'draft':
+        return `Post from ${channelPair.sourceName} sent to drafts by filters: ${reasons}`;
+      default:
+        return result.matched.length > 0
+          ? `Post from ${channelPair.sourceName} rewritten by filters: ${reasons}`
+          : `Post from ${channelPair.sourceName} passed filters`;
+    }
+  }
+}
+
+export const contentFilterService = new ContentFilterService();
@@ -0,0 +1,83 @@
+import type { GlossaryTerms } from '@shared/glossary';
+
+// Stand-in for a glossary term while the text is being translated
+export const GLOSSARY_PLACEHOLDER = /⟦\s*(\d+)\s*⟧/g;
+
+interface Placeholder {
+  term: string; // Glossary term as written in the glossary
+  output: string; // What the translation must contain instead of the placeholder
+}
+
+export interface ProtectedText {
+  text: string; // Source text with glossary terms replaced by placeholders
+  placeholders: Placeholder[];
+}
+
+export interface RestoredText {
+  text: string;
+  missingTerms: string[]; // Terms whose placeholder the translator dropped or mangled
+}
+
+/**
+ * Enforces a glossary on any translation provider: terms are swapped for placeholders
+ * before translation and put back afterwards, so forced translations and
+ * do-not-translate terms come out exactly as listed.
+ */
+export class GlossaryService {
+  protect(text: string, terms: GlossaryTerms): ProtectedText {
+    // Do-not-translate wins when a term is listed twice. Those terms match only as written
+    // ("TON", not "ton"); forced translations match in any case.
+    const outputs = new Map<string, { term: string; target: string | null }>();
+    terms.entries.forEach(entry => outputs.set(entry.source.toLowerCase(), { term: entry.source, target: entry.target }));
+    terms.doNotTranslate.forEach(term => outputs.set(term.toLowerCase(), { term, target: null }));
+
+    const placeholders: Placeholder[] = [];
+    if (outputs.size === 0) {
+      return { text, placeholders };
+    }
+
+    const protectedText = text.replace(this.termsPattern(Array.from(outputs.keys())), (match) => {
+      const output = outputs.get(match.toLowerCase());
+      if (!output || (output.target === null && match !== output.term)) return match;
+
+      placeholders.push({ term: output.term, output: output.target ?? output.term });
+      return `⟦${placeholders.length - 1}⟧`;
+    });
+
+    return { text: protectedText, placeholders };
+  }
+
+  restore(translatedText: string, { placeholders }: ProtectedText): RestoredText {
+    const restored = new Set<number>();
+    const text = translatedText.replace(GLOSSARY_PLACEHOLDER, (match, index: string) => {
+      const placeholder = placeholders[Number(index)];
+      if (!placeholder) return match;
+      restored.add(Number(index));
+      return placeholder.output;
+    });
+
+    const missingTerms = placeholders
+      .filter((placeholder, index) => !restored.has(index))
+      .map(placeholder => placeholder.term);
+
+    return { text, missingTerms: Array.from(new Set(missingTerms)) };
+  }
+
+  hasPlaceholders(text: string): boolean {
+    return new RegExp(GLOSSARY_PLACEHOLDER.source).test(text);
+  }
+
+  /**
+   * Whole-word, case-insensitive match of any term. Longer terms come first, so
+   * "Apple Vision Pro" wins over "Apple". Built with the constructor for Unicode
+   * property escapes.
+   */
+  private termsPattern(terms: string[]): RegExp {
+    const alternatives = [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  }
+}
+
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,169 @@
+import { storage } from '../storage';
+import { botRegistry } from './botRegistry';
+import { telegramService } from './telegram';
+import { webChannelParserService } from './webChannelParser';
+import type { ChannelPair, HealthCheckResult, PairHealth } from '@shared/schema';
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Consecutive failed checks before an active pair is moved to error, so a single
+// Telegram hiccup does not stop posting
+const FAILURES_BEFORE_ERROR = 2;
+
+interface CheckOutcome {
+  result: HealthCheckResult;
+  memberCount?: number; // Fresh subscriber count, when the check could read it
+}
+
+/**
+ * Periodically verifies every channel pair: the source is reachable, the pair's bot can
+ * post to the target, and subscriber counts are refreshed. Active pairs that keep failing
+ * move to `error` (which stops ingestion and sending) and return to `active` once they pass.
+ */
+export class HealthCheckerService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private failures = new Map<string, number>(); // Channel pair ID -> consecutive failed checks
+
+  async startMonitoring(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    console.log('🩺 Starting channel pair health checker...');
+
+    this.checkInterval = setInterval(() => this.checkAll(), CHECK_INTERVAL_MS);
+
+    // First check once the bots had time to initialize
+    setTimeout(() => this.checkAll(), 60000);
+  }
+
+  async stopMonitoring(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.isRunning = false;
+  }
+
+  async checkAll(): Promise<void> {
+    try {
+      const channelPairs = await storage.getChannelPairs();
+      for (const pair of channelPairs) {
+        await this.checkPair(pair);
+      }
+    } catch (error) {
+      console.error('❌ Error running health checks:', error);
+    }
+  }
+
+  async checkPair(channelPair: ChannelPair): Promise<ChannelPair> {
+    const sourceUsername = channelPair.sourceUsername.replace('@', '');
+    const targetUsername = channelPair.targetUsername.replace('@', '');
+
+    const [source, target] = await Promise.all([
+      this.checkSource(sourceUsername),
+      this.checkTarget(channelPair, targetUsername),
+    ]);
+
+    const missingCounts = [
+      source.memberCount === undefined && 'source',
+      target.memberCount === undefined && 'target',
+    ].filter(Boolean);
+    const health: PairHealth = {
+      checkedAt: new Date().toISOString(),
+      source: source.result,
+      target: target.result,
+      subscribers: missingCounts.length > 0
+        ? { ok: false, message: `Could not refresh ${missingCounts.join(' and ')} subscriber count` }
+        : { ok: true },
+    };
+
+    const updated = await storage.updateChannelPairHealth(channelPair.id, {
+      health,
+      ...(source.memberCount !== undefined ? { sourceSubscribers: source.memberCount } : {}),
+      ...(target.memberCount !== undefined ? { targetSubscribers: target.memberCount } : {}),
+    }) || channelPair;
+
+    const reason = [
+      !health.source.ok && `Source: ${health.source.message}`,
+      !health.target.ok && `Target: ${health.target.message}`,
+    ].filter(Boolean).join('; ');
+
+    return reason ? await this.recordFailure(updated, reason) : await this.recordSuccess(updated);
+  }
+
+  private async checkSource(sourceUsername: string): Promise<CheckOutcome> {
+    // The bot sees private sources it was added to; the web view covers the rest
+    if (telegramService.getBot()) {
+      try {
+        const info = await telegramService.getChannelInfo(`@${sourceUsername}`);
+        return { result: { ok: true }, memberCount: info.memberCount };
+      } catch {
+        // Bots cannot read public channels they are not a member of; try the web view
+      }
+    }
+
+    try {
+      return await webChannelParserService.hasPublicWebView(sourceUsername)
+        ? { result: { ok: true, message: 'Reachable through t.me' } }
+        : { result: { ok: false, message: `@${sourceUsername} is not a public channel or does not exist` } };
+    } catch (error) {
+      return { result: { ok: false, message: `t.me is unreachable: ${error instanceof Error ? error.message : String(error)}` } };
+    }
+  }
+
+  private async checkTarget(channelPair: ChannelPair, targetUsername: string): Promise<CheckOutcome> {
+    try {
+      const bot = botRegistry.forChannelPair(channelPair);
+      const result = await bot.checkPostingRights(targetUsername);
+      if (!result.ok) return { result };
+
+      const info = await bot.getChannelInfo(`@${targetUsername}`);
+      return { result, memberCount: info.memberCount };
+    } catch (error) {
+      return { result: { ok: false, message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  private async recordFailure(channelPair: ChannelPair, reason: string): Promise<ChannelPair> {
+    const failures = (this.failures.get(channelPair.id) || 0) + 1;
+    this.failures.set(channelPair.id, failures);
+    console.log(`🩺 Health check failed for ${channelPair.sourceName} → ${channelPair.targetName} (${failures}x): ${reason}`);
+
+    if (channelPair.status === 'error') {
+      // Keep the reason current while the pair stays broken
+      return await storage.transitionChannelPairStatus(channelPair.id, 'error', 'error', reason) || channelPair;
+    }
+
+    if (failures < FAILURES_BEFORE_ERROR) return channelPair;
+
+    const updated = await storage.transitionChannelPairStatus(channelPair.id, 'active', 'error', reason);
+    if (!updated) return channelPair;
+
+    await storage.createActivityLog({
+      type: 'channel_pair_error',
+      description: `${channelPair.sourceName} → ${channelPair.targetName} stopped: ${reason}`,
+      channelPairId: channelPair.id,
+      metadata: { reason },
+    });
+    return updated;
+  }
+
+  private async recordSuccess(channelPair: ChannelPair): Promise<ChannelPair> {
+    this.failures.delete(channelPair.id);
+    if (channelPair.status !== 'error') return channelPair;
+
+    const updated = await storage.transitionChannelPairStatus(channelPair.id, 'error', 'active', null);
+    if (!updated) return channelPair;
+
+    console.log(`✅ ${channelPair.sourceName} → ${channelPair.targetName} recovered`);
+    await storage.createActivityLog({
+      type: 'channel_pair_recovered',
+      description: `${channelPair.sourceName} → ${channelPair.targetName} passed the health check and was resumed`,
+      channelPairId: channelPair.id,
+    });
+    return updated;
+  }
+}
+
+export const healthCheckerService = new HealthCheckerService();
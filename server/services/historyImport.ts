@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { webChannelParserService, type WebMessage } from './webChannelParser';
+import { ingestionService } from './ingestion';
+import { webSocketService } from './websocketService';
+import type { ChannelPair } from '@shared/schema';
+import type { HistoryImportJob, HistoryImportOptions } from '@shared/historyImport';
+
+// About 20 posts per page, so this bounds one import at roughly 5000 scanned posts
+const HISTORY_PAGE_LIMIT = 250;
+
+// Pause between page requests to stay polite to t.me
+const PAGE_DELAY_MS = 1500;
+
+/**
+ * Seeds a channel pair with back-catalog content: walks the source's public history
+ * through the t.me web view and turns it into drafts. Never publishes anything and does
+ * not move the web parser cursor. Jobs are kept in memory and report progress over
+ * the WebSocket.
+ */
+export class HistoryImportService {
+  private jobs = new Map<string, HistoryImportJob>();
+
+  start(channelPair: ChannelPair, options: HistoryImportOptions): HistoryImportJob {
+    const running = this.getJobs(channelPair.id).find(job => job.status === 'running');
+    if (running) {
+      throw new Error('A history import is already running for this channel pair');
+    }
+
+    const job: HistoryImportJob = {
+      id: randomUUID(),
+      channelPairId: channelPair.id,
+      sourceName: channelPair.sourceName,
+      options,
+      status: 'running',
+      scanned: 0,
+      created: 0,
+      skipped: 0,
+      startedAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+
+    // Errors are recorded on the job by run() itself
+    void this.run(job, channelPair);
+    return job;
+  }
+
+  getJob(id: string): HistoryImportJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  getJobs(channelPairId?: string): HistoryImportJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !channelPairId || job.channelPairId === channelPairId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * Stops a running job after the message currently being imported. Drafts created so
+   * far are kept.
+   */
+  cancel(id: string): HistoryImportJob | undefined {
+    const job = this.jobs.get(id);
+    if (job?.status === 'running') {
+      job.status = 'cancelled';
+    }
+    return job;
+  }
+
+  private async run(job: HistoryImportJob, channelPair: ChannelPair): Promise<void> {
+    const sourceUsername = channelPair.sourceUsername.replace('@', '');
+    console.log(`📚 Importing history of ${sourceUsername} into drafts`, job.options);
+    webSocketService.historyImportStarted(job.id, job.sourceName);
+
+    try {
+      const messages = await this.collect(job, sourceUsername);
+      job.total = messages.length;
+
+      for (const message of messages) {
+        if (job.status !== 'running') break;
+
+        const created = await this.importMessage(channelPair, message);
+        if (created) {
+          job.created++;
+        } else {
+          job.skipped++;
+        }
+
+        webSocketService.historyImportProgress(job.id, job.sourceName, job.created + job.skipped, job.total);
+      }
+
+      if (job.status === 'running') {
+        job.status = 'completed';
+      }
+
+      await storage.createActivityLog({
+        type: 'history_import_completed',
+        description: `History import of ${job.sourceName} ${job.status === 'cancelled' ? 'cancelled' : 'finished'}: ${job.created} drafts created, ${job.skipped} skipped`,
+        channelPairId: channelPair.id,
+        metadata: { jobId: job.id, scanned: job.scanned, total: job.total, created: job.created, skipped: job.skipped },
+      });
+
+      webSocketService.historyImportCompleted(job.id, job.sourceName, job.created);
+      console.log(`✅ History import of ${sourceUsername} ${job.status}: ${job.created} drafts`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`❌ History import of ${sourceUsername} failed:`, errorMessage);
+
+      job.status = 'failed';
+      job.error = errorMessage;
+      webSocketService.historyImportFailed(job.id, job.sourceName, errorMessage);
+
+      await storage.createActivityLog({
+        type: 'history_import_failed',
+        description: `History import of ${job.sourceName} failed: ${errorMessage}`,
+        channelPairId: channelPair.id,
+        metadata: { jobId: job.id },
+      });
+    } finally {
+      job.finishedAt = new Date();
+    }
+  }
+
+  /**
+   * Walks pages from the newest backwards and keeps the messages that match the
+   * options. Returns them oldest first, so drafts are created in publication order.
+   */
+  private async collect(job: HistoryImportJob, sourceUsername: string): Promise<WebMessage[]> {
+    const { count, from, to } = job.options;
+    const selected = new Map<number, WebMessage>();
+    let before: number | undefined;
+
+    for (let page = 0; page < HISTORY_PAGE_LIMIT && job.status === 'running'; page++) {
+      if (page > 0) {
+        await new Promise(resolve => setTimeout(resolve, PAGE_DELAY_MS));
+      }
+
+      const messages = await webChannelParserService.getChannelMessagesWeb(sourceUsername, before);
+      if (messages.length === 0 || (before !== undefined && messages[0].messageId >= before)) break;
+
+      job.scanned += messages.length;
+      for (const message of messages) {
+        if (to && message.time && message.time > to) continue;
+        if (from && message.time && message.time < from) continue;
+        selected.set(message.messageId, message);
+      }
+      webSocketService.historyImportProgress(job.id, job.sourceName, job.scanned);
+
+      before = messages[0].messageId;
+
+      // Everything further back is older than the requested range
+      if (from && messages[0].time && messages[0].time < from) break;
+      if (count !== undefined && selected.size >= count) break;
+    }
+
+    const sorted = Array.from(selected.values()).sort((a, b) => a.messageId - b.messageId);
+    return count !== undefined ? sorted.slice(-count) : sorted;
+  }
+
+  /**
+   * @returns Whether a draft was created (false when already imported or filtered out)
+   */
+  private async importMessage(channelPair: ChannelPair, message: WebMessage): Promise<boolean> {
+    const result = await ingestionService.ingestForPair(
+      channelPair,
+      ingestionService.fromWebMessage(message),
+      { draftOnly: true }
+    );
+    return result.outcome === 'processed';
+  }
+}
+
+export const historyImportService = new HistoryImportService();
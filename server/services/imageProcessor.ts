@@ -1,6 +1,18 @@
 import sharp from 'sharp';
-import path from 'path';
-import fs from 'fs/promises';
+import { logoStorage } from './logoStorage';
+import type { ImagePipelineConfig, WatermarkLayout, WatermarkPosition } from '@shared/imagePipeline';
+
+const GRAVITY: Record<WatermarkPosition, string> = {
+  'top-left': 'northwest',
+  'top': 'north',
+  'top-right': 'northeast',
+  'left': 'west',
+  'center': 'center',
+  'right': 'east',
+  'bottom-left': 'southwest',
+  'bottom': 'south',
+  'bottom-right': 'southeast',
+};
 
 export class ImageProcessor {
   async processImage(
@@ -8,66 +20,67 @@ export class ImageProcessor {
     options: {
       addWatermark?: boolean;
       watermarkText?: string;
+      watermarkLogo?: Buffer;
+      watermarkPosition?: WatermarkPosition;
+      watermarkLayout?: WatermarkLayout;
+      watermarkScale?: number; // Logo width relative to the image width
+      watermarkMargin?: number;
+      watermarkOpacity?: number;
       optimizeSize?: boolean;
       maxWidth?: number;
       maxHeight?: number;
       quality?: number;
       removeOriginalBranding?: boolean;
+      cropPercent?: number;
+      stripExif?: boolean;
     } = {}
   ): Promise<Buffer> {
     try {
-      let image = sharp(inputBuffer);
+      // Apply the EXIF orientation before the metadata is dropped, otherwise photos end up rotated
+      let image = options.stripExif === false ? sharp(inputBuffer).withMetadata() : sharp(inputBuffer).rotate();
 
       // Get image metadata
       const metadata = await image.metadata();
-      
-      // Optimize size if requested
-      if (options.optimizeSize) {
-        const maxWidth = options.maxWidth || 1920;
-        const maxHeight = options.maxHeight || 1080;
-        
-        if (metadata.width && metadata.width > maxWidth) {
-          image = image.resize(maxWidth, null, {
-            withoutEnlargement: true,
-            fit: 'inside'
-          });
-        }
-        
-        if (metadata.height && metadata.height > maxHeight) {
-          image = image.resize(null, maxHeight, {
-            withoutEnlargement: true,
-            fit: 'inside'
-          });
-        }
-      }
+      const rotated = (metadata.orientation || 1) >= 5 && options.stripExif !== false;
+      const width = (rotated ? metadata.height : metadata.width) || 1920;
+      const height = (rotated ? metadata.width : metadata.height) || 1080;
 
       // Remove original branding if requested (crop bottom area where watermarks usually are)
-      if (options.removeOriginalBranding) {
-        const width = metadata.width || 1920;
-        const height = metadata.height || 1080;
-        
-        // Crop bottom 5% where watermarks/logos are typically placed
-        const cropHeight = Math.floor(height * 0.95);
+      const cropPercent = options.cropPercent ?? (options.removeOriginalBranding ? 5 : 0);
+      let finalWidth = width;
+      let finalHeight = height;
+      if (cropPercent > 0) {
+        finalHeight = Math.max(1, Math.floor(height * (1 - cropPercent / 100)));
         image = image.extract({
           left: 0,
           top: 0,
           width: width,
-          height: cropHeight
+          height: finalHeight
         });
       }
 
+      // Optimize size if requested
+      if (options.optimizeSize) {
+        const maxWidth = options.maxWidth || 1920;
+        const maxHeight = options.maxHeight || 1080;
+        image = image.resize(maxWidth, maxHeight, {
+          withoutEnlargement: true,
+          fit: 'inside'
+        });
+
+        const scale = Math.min(1, maxWidth / finalWidth, maxHeight / finalHeight);
+        finalWidth = Math.max(1, Math.floor(finalWidth * scale));
+        finalHeight = Math.max(1, Math.floor(finalHeight * scale));
+      }
+
       // Add watermark if requested
-      if (options.addWatermark && options.watermarkText) {
-        const currentMetadata = await image.metadata();
-        const watermarkSvg = this.createWatermarkSvg(
-          options.watermarkText,
-          currentMetadata.width || 1920,
-          currentMetadata.height || 1080
-        );
+      if (options.addWatermark && (options.watermarkLogo || options.watermarkText)) {
+        const overlay = await this.createWatermark(options, finalWidth, finalHeight);
+        const tiled = options.watermarkLayout === 'tiled';
 
         image = image.composite([{
-          input: Buffer.from(watermarkSvg),
-          gravity: 'southeast'
+          input: overlay,
+          ...(tiled ? { tile: true, gravity: 'northwest' } : { gravity: GRAVITY[options.watermarkPosition || 'bottom-right'] })
         }]);
       }
 
@@ -95,12 +108,119 @@ export class ImageProcessor {
     }
   }
 
+  /**
+   * Runs a channel pair's image pipeline on a downloaded photo.
+   */
+  async applyPipeline(inputBuffer: Buffer, pipeline: ImagePipelineConfig): Promise<Buffer> {
+    let watermarkLogo: Buffer | undefined;
+    if (pipeline.watermarkLogo) {
+      watermarkLogo = await logoStorage.read(pipeline.watermarkLogo) || undefined;
+      if (!watermarkLogo) {
+        console.log(`⚠️ Watermark logo ${pipeline.watermarkLogo} not found, falling back to text`);
+      }
+    }
+
+    return await this.processImage(inputBuffer, {
+      addWatermark: !!(watermarkLogo || pipeline.watermarkText),
+      watermarkText: pipeline.watermarkText,
+      watermarkLogo,
+      watermarkPosition: pipeline.position,
+      watermarkLayout: pipeline.layout,
+      watermarkScale: pipeline.logoScale,
+      watermarkMargin: pipeline.margin,
+      watermarkOpacity: pipeline.opacity,
+      optimizeSize: true,
+      maxWidth: pipeline.maxWidth,
+      maxHeight: pipeline.maxHeight,
+      quality: pipeline.quality,
+      cropPercent: pipeline.cropPercent,
+      stripExif: pipeline.stripExif,
+    });
+  }
+
+  /**
+   * Renders the pipeline on a generated sample photo, so watermark settings can be
+   * checked before they reach live posts.
+   */
+  async renderPreview(pipeline: ImagePipelineConfig): Promise<Buffer> {
+    const sample = await sharp(Buffer.from(`
+      <svg width="1280" height="853" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+          <linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0" stop-color="#4a90c2"/>
+            <stop offset="1" stop-color="#d8ecf7"/>
+          </linearGradient>
+        </defs>
+        <rect width="1280" height="853" fill="url(#sky)"/>
+        <circle cx="1010" cy="190" r="90" fill="#ffe28a"/>
+        <polygon points="0,853 320,420 560,700 820,360 1280,853" fill="#3c6e47"/>
+        <rect y="790" width="1280" height="63" fill="#2a2a2a"/>
+      </svg>
+    `)).jpeg({ quality: 90 }).toBuffer();
+
+    return await this.applyPipeline(sample, pipeline);
+  }
+
+  /**
+   * Builds the overlay (logo or text) already faded, scaled and padded by the margin.
+   * The result never exceeds the image, which sharp requires for compositing.
+   */
+  private async createWatermark(
+    options: {
+      watermarkText?: string;
+      watermarkLogo?: Buffer;
+      watermarkScale?: number;
+      watermarkMargin?: number;
+      watermarkOpacity?: number;
+    },
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<Buffer> {
+    const margin = options.watermarkMargin ?? 20;
+    const opacity = options.watermarkOpacity ?? 0.8;
+
+    let mark = options.watermarkLogo
+      ? await sharp(options.watermarkLogo)
+          .resize(
+            Math.max(1, Math.floor(imageWidth * (options.watermarkScale ?? 0.2))),
+            Math.max(1, Math.floor(imageHeight / 2)),
+            { fit: 'inside' }
+          )
+          .ensureAlpha()
+          .png()
+          .toBuffer()
+      : await sharp(Buffer.from(this.createWatermarkSvg(options.watermarkText!, imageWidth, imageHeight))).png().toBuffer();
+
+    // Fade through the alpha channel so transparent logo areas stay transparent
+    mark = await sharp(mark)
+      .composite([{
+        input: Buffer.from([255, 255, 255, Math.round(255 * opacity)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in'
+      }])
+      .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+
+    const { width = 0, height = 0 } = await sharp(mark).metadata();
+    if (width <= imageWidth && height <= imageHeight) return mark;
+
+    return await sharp(mark).resize(imageWidth, imageHeight, { fit: 'inside' }).png().toBuffer();
+  }
+
   private createWatermarkSvg(text: string, width: number, height: number): string {
-    const fontSize = Math.max(width * 0.02, 12);
-    const padding = 20;
+    const padding = 4; // Room for the shadow; the distance from the edges comes from the margin
+    // Rough glyph width estimate; the font shrinks so the label never overflows the image
+    const fontSize = Math.max(
+      Math.min(Math.max(width * 0.02, 12), (width - padding * 2) / (Math.max(text.length, 1) * 0.6), height / 4),
+      1
+    );
+    const boxWidth = Math.max(1, Math.min(width, Math.ceil(text.length * fontSize * 0.6 + padding * 2)));
+    const boxHeight = Math.max(1, Math.min(height, Math.ceil(fontSize * 1.4 + padding * 2)));
     
     return `
-      <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <svg width="${boxWidth}" height="${boxHeight}" xmlns="http://www.w3.org/2000/svg">
         <defs>
           <filter id="shadow" x="-50%" y="-50%" width="200%" height="200%">
             <feMorphology operator="dilate" radius="1"/>
@@ -112,19 +232,27 @@ export class ImageProcessor {
           </filter>
         </defs>
         <text 
-          x="${width - padding}" 
-          y="${height - padding}" 
+          x="${boxWidth / 2}" 
+          y="${boxHeight - padding - fontSize * 0.3}" 
           font-family="Arial, sans-serif" 
           font-size="${fontSize}" 
           fill="white" 
-          text-anchor="end" 
+          text-anchor="middle" 
           filter="url(#shadow)"
-          opacity="0.8"
-        >${text}</text>
+        >${this.escapeXml(text)}</text>
       </svg>
     `;
   }
 
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
   async removeExifData(inputBuffer: Buffer): Promise<Buffer> {
     try {
       return await sharp(inputBuffer)
@@ -0,0 +1,270 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { storage } from '../storage';
+import { schedulerService } from './scheduler';
+import { translationService } from './translationService';
+import { contentFilterService } from './contentFilter';
+import { languageDetector } from './languageDetector';
+import { telegramService } from './telegram';
+import { webSocketService } from './websocketService';
+import { resolveTargetLanguage } from '@shared/languages';
+import type { ChannelPair, MediaItem } from '@shared/schema';
+import type { WebMessage } from './webChannelParser';
+
+export type IngestionSource = 'bot' | 'webhook' | 'web';
+
+// A source post normalized from a bot update, a webhook update or a t.me page
+export interface IncomingMessage {
+  source: IngestionSource;
+  channelUsername: string; // Without the leading @
+  messageId: number;
+  text: string;
+  media: MediaItem[];
+}
+
+export interface IngestOptions {
+  // Create a draft regardless of copyMode and never queue a post (history imports)
+  draftOnly?: boolean;
+}
+
+export type IngestionOutcome = 'processed' | 'duplicate' | 'disabled' | 'filtered' | 'failed';
+
+export interface IngestionResult {
+  outcome: IngestionOutcome;
+  postId?: string;
+  draftId?: string;
+}
+
+/**
+ * Single entry point for new source posts. Whatever delivered the message, it goes
+ * through the same dedup, filters, translation and copyMode routing, and ends up as a
+ * draft, a scheduled post or both.
+ */
+export class IngestionService {
+  // Pair/message keys being ingested right now, so the bot and the web parser
+  // delivering the same post at once do not both create it
+  private inFlight = new Set<string>();
+
+  fromTelegramMessage(message: TelegramBot.Message, source: 'bot' | 'webhook'): IncomingMessage | null {
+    if (!message.chat.username) return null;
+
+    return {
+      source,
+      channelUsername: message.chat.username,
+      messageId: message.message_id,
+      text: message.text || message.caption || '',
+      media: telegramService.extractMessageMedia(message),
+    };
+  }
+
+  fromWebMessage(message: WebMessage): IncomingMessage {
+    return {
+      source: 'web',
+      channelUsername: message.channelUsername.replace('@', ''),
+      messageId: message.messageId,
+      text: message.text || '',
+      media: message.media || [],
+    };
+  }
+
+  /**
+   * Ingests a message into every active channel pair whose source is the message's channel.
+   */
+  async ingest(message: IncomingMessage): Promise<IngestionResult[]> {
+    const channelPairs = await storage.getChannelPairs();
+    const matchingPairs = channelPairs.filter(pair =>
+      pair.status === 'active' &&
+      pair.sourceUsername.replace('@', '').toLowerCase() === message.channelUsername.toLowerCase()
+    );
+
+    const results: IngestionResult[] = [];
+    for (const pair of matchingPairs) {
+      results.push(await this.ingestForPair(pair, message));
+    }
+    return results;
+  }
+
+  async ingestForPair(channelPair: ChannelPair, message: IncomingMessage, options: IngestOptions = {}): Promise<IngestionResult> {
+    const originalPostId = message.messageId.toString();
+    const key = `${channelPair.id}:${originalPostId}`;
+    if (this.inFlight.has(key)) {
+      return { outcome: 'duplicate' };
+    }
+
+    this.inFlight.add(key);
+    try {
+      return await this.process(channelPair, message, originalPostId, options);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Error ingesting ${message.source} message ${originalPostId}:`, errorMessage);
+
+      await storage.createActivityLog({
+        type: message.source === 'web' ? 'web_post_failed' : 'post_failed',
+        description: `Failed to process message from ${channelPair.sourceName}: ${errorMessage}`,
+        channelPairId: channelPair.id,
+        metadata: { source: message.source, originalPostId },
+      });
+      return { outcome: 'failed' };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async process(
+    channelPair: ChannelPair,
+    message: IncomingMessage,
+    originalPostId: string,
+    options: IngestOptions
+  ): Promise<IngestionResult> {
+    console.log(`📝 Ingesting ${message.source} message ${originalPostId} from ${channelPair.sourceName}`);
+
+    if (channelPair.copyMode === 'disabled' && !options.draftOnly) {
+      console.log(`⏸️ Skipping message ${originalPostId} - copyMode is disabled for ${channelPair.sourceName}`);
+      return { outcome: 'disabled' };
+    }
+
+    const [existingPost, existingDraft] = await Promise.all([
+      storage.getPostByOriginalId(originalPostId, channelPair.id),
+      storage.getDraftPostByOriginalId(originalPostId, channelPair.id),
+    ]);
+    if (existingPost || existingDraft) {
+      console.log(`📮 Message ${originalPostId} from ${channelPair.sourceName} already ingested, skipping`);
+      return { outcome: 'duplicate' };
+    }
+
+    // Filter on the original text, before spending a translation on it
+    const filterResult = await contentFilterService.applyFilters(
+      channelPair,
+      { content: message.text, media: message.media },
+      originalPostId
+    );
+
+    if (filterResult.decision !== 'send') {
+      await contentFilterService.recordFiltered(channelPair, originalPostId, filterResult);
+    }
+
+    if (filterResult.decision === 'skip') {
+      console.log(`🚫 Message ${originalPostId} skipped by filters`);
+      return { outcome: 'filtered' };
+    }
+
+    const translation = await this.translate(channelPair, filterResult.content, originalPostId, message.source);
+    const content = translation.content;
+    const originalLanguage = languageDetector.languageOf(message.text, translation.originalLanguage);
+
+    const toDrafts = options.draftOnly || filterResult.decision === 'draft' || channelPair.copyMode === 'draft' || channelPair.copyMode === 'both';
+    const toQueue = !options.draftOnly && filterResult.decision === 'send' && (channelPair.copyMode === 'auto_publish' || channelPair.copyMode === 'both');
+    const result: IngestionResult = { outcome: 'processed' };
+    const detectedType = message.source === 'web' ? 'web_post_detected' : 'post_detected';
+
+    if (toDrafts) {
+      const draftPost = await storage.createDraftPost({
+        channelPairId: channelPair.id,
+        originalPostId,
+        content,
+        originalContent: message.text,
+        mediaUrls: message.media,
+        status: 'draft',
+        isTranslated: translation.isTranslated,
+        originalLanguage,
+        targetLanguage: translation.targetLanguage,
+        sourceUrl: `https://t.me/${message.channelUsername}/${originalPostId}`,
+      });
+      result.draftId = draftPost.id;
+
+      console.log(`📝 Created draft post: ${draftPost.id} for copyMode: '${channelPair.copyMode}' ${translation.isTranslated ? '(with translation)' : ''}`);
+      webSocketService.draftCreated(channelPair.sourceName, content.substring(0, 100));
+
+      await storage.createActivityLog({
+        type: detectedType,
+        description: `New post from ${channelPair.sourceName} saved to drafts (copyMode: ${channelPair.copyMode})${translation.isTranslated ? ' (translated)' : ''}`,
+        channelPairId: channelPair.id,
+        metadata: { source: message.source, originalPostId, draftId: draftPost.id },
+      });
+    }
+
+    if (toQueue) {
+      const post = await storage.createPost({
+        channelPairId: channelPair.id,
+        originalPostId,
+        content,
+        mediaUrls: message.media,
+        originalLanguage,
+        status: 'pending',
+      });
+      result.postId = post.id;
+
+      await schedulerService.schedulePost(post.id, channelPair.postingDelay || 0);
+
+      await storage.createActivityLog({
+        type: detectedType,
+        description: `New post detected from ${channelPair.sourceName}${translation.isTranslated ? ' (translated)' : ''}`,
+        channelPairId: channelPair.id,
+        postId: post.id,
+        metadata: { source: message.source, originalPostId },
+      });
+
+      console.log(`🎯 Scheduled ${message.source} post from ${channelPair.sourceName} to ${channelPair.targetName}`);
+    }
+
+    return result;
+  }
+
+  private async translate(
+    channelPair: ChannelPair,
+    content: string,
+    originalPostId: string,
+    source: IngestionSource
+  ): Promise<{ content: string; isTranslated: boolean; originalLanguage?: string; targetLanguage?: string }> {
+    if (!channelPair.autoTranslate || content.length === 0 || !translationService.isEnabled()) {
+      return { content, isTranslated: false };
+    }
+
+    const targetLanguage = resolveTargetLanguage(channelPair.targetLanguage);
+
+    try {
+      console.log(`🌐 Attempting translation for message ${originalPostId}...`);
+      const translationResult = await translationService.translate(content, targetLanguage, {
+        source,
+        channelPairId: channelPair.id,
+        glossaryId: channelPair.glossaryId,
+      });
+
+      if (!translationResult.wasTranslated) {
+        console.log(`ℹ️ No translation needed for message ${originalPostId} (${translationResult.detectedLanguage})`);
+        return { content, isTranslated: false, originalLanguage: translationResult.detectedLanguage };
+      }
+
+      console.log(`✅ Translated ${translationResult.detectedLanguage} → ${targetLanguage} for message ${originalPostId}`);
+      await storage.createActivityLog({
+        type: 'content_translated',
+        description: `Content translated from ${translationResult.detectedLanguage} to ${targetLanguage}`,
+        channelPairId: channelPair.id,
+        metadata: {
+          originalLanguage: translationResult.detectedLanguage,
+          targetLanguage,
+          originalLength: translationResult.originalText.length,
+          translatedLength: translationResult.translatedText.length
+        }
+      });
+
+      return {
+        content: translationResult.translatedText,
+        isTranslated: true,
+        originalLanguage: translationResult.detectedLanguage,
+        targetLanguage,
+      };
+    } catch (translationError) {
+      console.error(`❌ Translation failed for message ${originalPostId}:`, translationError);
+
+      // Continue with the original content
+      await storage.createActivityLog({
+        type: 'translation_failed',
+        description: `Translation failed: ${translationError instanceof Error ? translationError.message : 'Unknown error'}`,
+        channelPairId: channelPair.id,
+      });
+      return { content, isTranslated: false };
+    }
+  }
+}
+
+export const ingestionService = new IngestionService();
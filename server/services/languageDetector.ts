@@ -0,0 +1,154 @@
+export interface DetectedLanguage {
+  language: string; // ISO 639-1 code or "unknown"
+  confidence: number; // 0..1
+}
+
+interface LanguageProfile {
+  language: string;
+  letters: string; // Letters rare or absent in the other languages of the script
+  words: string[]; // Frequent short words not shared with the other languages of the script
+}
+
+interface ScriptProfile {
+  pattern: RegExp;
+  // Single-language scripts need no further analysis
+  language?: string;
+  languages?: LanguageProfile[];
+  // Reported when no profile matches, with its confidence before length and script share
+  fallback?: { language: string; confidence: number };
+}
+
+// Built with the constructor: Unicode property escapes are newer than the compile target
+const NON_WORDS_PATTERN = new RegExp('https?:\\/\\/\\S+|[@#][\\p{L}\\p{N}_]+', 'gu');
+const LETTER_PATTERN = new RegExp('\\p{L}', 'gu');
+const WORD_PATTERN = new RegExp("[\\p{L}'ʼʻ‘’]+", 'gu');
+
+// Letters needed before a guess is trusted fully; shorter text scales confidence down
+const FULL_CONFIDENCE_LETTERS = 20;
+// Profile hits needed before the best match is trusted fully
+const FULL_CONFIDENCE_HITS = 4;
+
+const SCRIPTS: ScriptProfile[] = [
+  {
+    pattern: /[Ѐ-ӿ]/g,
+    languages: [
+      { language: 'ru', letters: 'ъ', words: ['и', 'что', 'это', 'как', 'все', 'он', 'так', 'был', 'была', 'уже', 'или', 'только', 'когда', 'если', 'чтобы', 'который', 'также', 'после', 'сегодня', 'году'] },
+      { language: 'uk', letters: 'їєґ', words: ['і', 'та', 'що', 'це', 'як', 'від', 'але', 'вже', 'також', 'був', 'була', 'або', 'коли', 'якщо', 'який', 'після', 'сьогодні', 'році'] },
+      { language: 'be', letters: 'ў', words: ['і', 'што', 'гэта', 'як', 'ад', 'але', 'ужо', 'таксама', 'быў', 'калі', 'які', 'пасля', 'сёння'] },
+      { language: 'kk', letters: 'әғқңөұүһ', words: ['және', 'бұл', 'мен', 'үшін', 'деп', 'бар', 'жоқ', 'бойынша', 'осы', 'бір', 'емес', 'тиіс', 'кейін', 'бүгін'] },
+    ],
+    // Ukrainian, Belarusian and Kazakh text nearly always carries its own letters
+    fallback: { language: 'ru', confidence: 0.9 },
+  },
+  {
+    pattern: /[A-Za-zÀ-ɏ]/g,
+    languages: [
+      { language: 'en', letters: '', words: ['the', 'and', 'of', 'to', 'is', 'that', 'for', 'with', 'are', 'this', 'be', 'by', 'from', 'have', 'you', 'it', 'will', 'has'] },
+      { language: 'de', letters: 'äß', words: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'sich', 'ein', 'eine', 'auf', 'für', 'ich', 'dem', 'auch', 'wird'] },
+      { language: 'fr', letters: 'èêœëû', words: ['le', 'les', 'et', 'est', 'une', 'pour', 'dans', 'pas', 'sur', 'qui', 'avec', 'au', 'ce', 'sont', 'aux', 'nous', 'été'] },
+      { language: 'es', letters: 'ñ¿¡', words: ['el', 'los', 'las', 'y', 'es', 'con', 'su', 'pero', 'fue', 'muy', 'este', 'también', 'sus', 'hay'] },
+      { language: 'it', letters: 'ìò', words: ['di', 'che', 'gli', 'per', 'non', 'è', 'sono', 'della', 'delle', 'anche', 'alla', 'nel', 'questo', 'ma', 'più', 'degli'] },
+      { language: 'pt', letters: 'ãõ', words: ['o', 'os', 'do', 'da', 'em', 'um', 'uma', 'não', 'com', 'dos', 'das', 'foi', 'ao', 'seu', 'sua', 'também', 'está'] },
+      { language: 'tr', letters: 'ığşİ', words: ['bir', 've', 'bu', 'için', 'ile', 'çok', 'daha', 'gibi', 'olarak', 'ama', 'var', 'olan', 'değil', 'kadar'] },
+      { language: 'pl', letters: 'ąęłńśźżć', words: ['w', 'z', 'się', 'nie', 'jest', 'że', 'jak', 'po', 'co', 'ale', 'oraz', 'przez', 'dla', 'był', 'była', 'już'] },
+      { language: 'uz', letters: 'ʻ‘', words: ['va', 'bilan', 'uchun', 'ham', 'edi', 'emas', 'deb', 'bo‘yicha', 'boʻyicha', "bo'yicha", 'yil', 'haqida', 'esa'] },
+    ],
+    // Latin letters alone say little about the language
+    fallback: { language: 'en', confidence: 0.4 },
+  },
+  { pattern: /[؀-ۿ]/g, language: 'ar' },
+  { pattern: /[֐-׿]/g, language: 'he' },
+  { pattern: /[぀-ヿ]/g, language: 'ja' },
+  { pattern: /[一-鿿]/g, language: 'zh' },
+  { pattern: /[가-힯]/g, language: 'ko' },
+  { pattern: /[฀-๿]/g, language: 'th' },
+  { pattern: /[ऀ-ॿ]/g, language: 'hi' },
+];
+
+/**
+ * Offline language detection. The dominant script decides the language family; within
+ * Cyrillic and Latin, languages are told apart by their own letters and frequent words.
+ * Confidence drops for short text, mixed scripts and close runners-up, so callers can
+ * fall back to a slower detector when it is low.
+ */
+export class LanguageDetector {
+  detect(content: string): DetectedLanguage {
+    const text = content.replace(NON_WORDS_PATTERN, ' ').toLowerCase();
+    const totalLetters = text.match(LETTER_PATTERN)?.length || 0;
+    if (totalLetters === 0) {
+      return { language: 'unknown', confidence: 0 };
+    }
+
+    let script: ScriptProfile | null = null;
+    let scriptLetters = 0;
+    for (const candidate of SCRIPTS) {
+      const count = text.match(candidate.pattern)?.length || 0;
+      if (count > scriptLetters) {
+        script = candidate;
+        scriptLetters = count;
+      }
+    }
+    if (!script) {
+      return { language: 'unknown', confidence: 0 };
+    }
+
+    // Kana appears only in Japanese, which also uses Han characters
+    if (script.language === 'zh' && /[぀-ヿ]/.test(text)) {
+      script = SCRIPTS.find(candidate => candidate.language === 'ja') || script;
+    }
+
+    const base = (scriptLetters / totalLetters) * Math.min(1, totalLetters / FULL_CONFIDENCE_LETTERS);
+    if (script.language) {
+      return { language: script.language, confidence: this.round(base) };
+    }
+
+    const match = this.matchProfiles(text, script.languages || []);
+    if (!match) {
+      const fallback = script.fallback || { language: 'unknown', confidence: 0 };
+      return { language: fallback.language, confidence: this.round(base * fallback.confidence) };
+    }
+
+    const margin = (match.best - match.runnerUp) / match.best;
+    const evidence = Math.min(1, match.best / FULL_CONFIDENCE_HITS);
+    // A few hits for the fallback language must not make it less certain than none
+    const uncontested = match.runnerUp === 0 && match.language === script.fallback?.language
+      ? script.fallback.confidence
+      : 0;
+    return { language: match.language, confidence: this.round(base * Math.max(margin * evidence, uncontested)) };
+  }
+
+  /**
+   * Language to store for a post: the one the translator reported when it found one,
+   * otherwise the local guess. Undefined when neither knows.
+   */
+  languageOf(content: string, translatorLanguage?: string): string | undefined {
+    if (translatorLanguage && translatorLanguage !== 'unknown') {
+      return translatorLanguage;
+    }
+    const { language } = this.detect(content);
+    return language === 'unknown' ? undefined : language;
+  }
+
+  private matchProfiles(text: string, profiles: LanguageProfile[]): { language: string; best: number; runnerUp: number } | null {
+    const words = text.match(WORD_PATTERN) || [];
+    const scores = profiles
+      .map(profile => {
+        const letterHits = profile.letters
+          ? Array.from(text).filter(char => profile.letters.includes(char)).length
+          : 0;
+        const wordHits = words.filter(word => profile.words.includes(word)).length;
+        return { language: profile.language, score: letterHits + wordHits };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scores;
+    if (!best || best.score === 0) return null;
+    return { language: best.language, best: best.score, runnerUp: runnerUp?.score || 0 };
+  }
+
+  private round(confidence: number): number {
+    return Math.round(confidence * 100) / 100;
+  }
+}
+
+export const languageDetector = new LanguageDetector();
@@ -0,0 +1,88 @@
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+
+// Logo uploads live next to the app so they survive restarts
+export const LOGO_DIR = path.resolve(process.cwd(), 'uploads', 'logos');
+
+export const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+const LOGO_NAME_PATTERN = /^[\w-]+\.png$/;
+
+export interface StoredLogo {
+  name: string;
+  size: number;
+  width?: number;
+  height?: number;
+  createdAt: Date;
+}
+
+/**
+ * Stores uploaded watermark logos on disk. Only PNG files are accepted, since
+ * watermarks rely on their alpha channel.
+ */
+export class LogoStorageService {
+  async save(buffer: Buffer): Promise<StoredLogo> {
+    if (buffer.length > MAX_LOGO_SIZE) {
+      throw new Error(`Logo is larger than ${MAX_LOGO_SIZE / 1024 / 1024} MB`);
+    }
+
+    const metadata = await sharp(buffer).metadata().catch(() => null);
+    if (metadata?.format !== 'png') {
+      throw new Error('Logo must be a PNG image');
+    }
+
+    const name = `${randomUUID()}.png`;
+    await fs.mkdir(LOGO_DIR, { recursive: true });
+    await fs.writeFile(path.join(LOGO_DIR, name), buffer);
+
+    console.log(`🖼️ Stored watermark logo ${name} (${metadata.width}x${metadata.height})`);
+    return { name, size: buffer.length, width: metadata.width, height: metadata.height, createdAt: new Date() };
+  }
+
+  async list(): Promise<StoredLogo[]> {
+    const names = await fs.readdir(LOGO_DIR).catch(() => [] as string[]);
+    const logos: StoredLogo[] = [];
+
+    for (const name of names.filter(name => LOGO_NAME_PATTERN.test(name))) {
+      const stats = await fs.stat(path.join(LOGO_DIR, name));
+      logos.push({ name, size: stats.size, createdAt: stats.birthtime });
+    }
+
+    return logos.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * @returns The logo contents, or null when the name is invalid or the file is gone
+   */
+  async read(name: string): Promise<Buffer | null> {
+    const filePath = this.resolvePath(name);
+    if (!filePath) return null;
+
+    try {
+      return await fs.readFile(filePath);
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const filePath = this.resolvePath(name);
+    if (!filePath) return false;
+
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  resolvePath(name: string): string | null {
+    // Names are generated on upload; anything else could point outside the logo directory
+    return LOGO_NAME_PATTERN.test(name) ? path.join(LOGO_DIR, name) : null;
+  }
+}
+
+export const logoStorage = new LogoStorageService();
@@ -0,0 +1,283 @@
+// Telegram limits, counted in visible characters (UTF-16 code units) after HTML parsing
+export const CAPTION_LIMIT = 1024;
+export const MESSAGE_LIMIT = 4096;
+
+// Tags supported by Telegram's HTML parse mode
+const ALLOWED_TAGS = new Set([
+  'b', 'strong', 'i', 'em', 'u', 'ins', 's', 'strike', 'del',
+  'tg-spoiler', 'span', 'a', 'code', 'pre', 'blockquote', 'tg-emoji',
+]);
+
+// Common block-level tags from web content that are turned into line breaks instead of escaped
+const LINE_BREAK_TAGS = new Set(['br', 'p', 'div', 'li', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)([^<>]*)>/g;
+const ENTITY_PATTERN = /&(lt|gt|amp|quot|#\d+|#x[0-9a-fA-F]+);/g;
+
+interface HtmlToken {
+  kind: 'open' | 'close' | 'text';
+  name?: string;
+  raw: string;
+}
+
+export interface FormattedPost {
+  caption?: string; // First chunk, sent as the media caption
+  messages: string[]; // Follow-up (or text-only) messages, each within MESSAGE_LIMIT
+}
+
+export class MessageFormatter {
+  /**
+   * Converts arbitrary post text into HTML that Telegram accepts: supported tags are kept
+   * (with only the attributes Telegram understands), everything else is escaped and
+   * unclosed tags are balanced. Safe to run more than once on the same text.
+   */
+  sanitizeHtml(text: string): string {
+    if (!text) return '';
+
+    let result = '';
+    const stack: { name: string; keep: boolean }[] = [];
+    let lastIndex = 0;
+
+    for (const match of Array.from(text.matchAll(TAG_PATTERN))) {
+      result += this.escapeText(text.slice(lastIndex, match.index));
+      lastIndex = match.index! + match[0].length;
+
+      const isClosing = match[1] === '/';
+      const name = match[2].toLowerCase();
+      const attributes = match[3];
+
+      if (LINE_BREAK_TAGS.has(name)) {
+        // Opening <p>/<div> adds nothing; <br> and closing block tags end the line
+        if (name === 'br' || isClosing) result += '\n';
+        continue;
+      }
+
+      if (!ALLOWED_TAGS.has(name)) {
+        result += this.escapeText(match[0]);
+        continue;
+      }
+
+      if (isClosing) {
+        const openIndex = stack.map(entry => entry.name).lastIndexOf(name);
+        if (openIndex === -1) continue; // Stray closing tag
+
+        // Close anything left open inside this tag so nesting stays valid
+        while (stack.length > openIndex) {
+          const entry = stack.pop()!;
+          if (entry.keep) result += `</${entry.name}>`;
+        }
+        continue;
+      }
+
+      const openTag = this.buildOpenTag(name, attributes);
+      stack.push({ name, keep: openTag !== null });
+      if (openTag) result += openTag;
+    }
+
+    result += this.escapeText(text.slice(lastIndex));
+
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      if (entry.keep) result += `</${entry.name}>`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Sanitizes the post text and splits it into Telegram-sized pieces without cutting tags
+   * or words. With media, the first piece is limited to CAPTION_LIMIT and returned as the
+   * caption; the rest (and all pieces of text-only posts) are limited to MESSAGE_LIMIT.
+   */
+  splitMessage(text: string, hasMedia: boolean): FormattedPost {
+    const html = this.sanitizeHtml(text).trim();
+    if (!html) return { messages: [] };
+
+    if (!hasMedia) {
+      return { messages: this.chunk(html, MESSAGE_LIMIT, MESSAGE_LIMIT) };
+    }
+
+    const [caption, ...messages] = this.chunk(html, CAPTION_LIMIT, MESSAGE_LIMIT);
+    return { caption, messages };
+  }
+
+  private chunk(html: string, firstLimit: number, nextLimit: number): string[] {
+    const chunks: string[] = [];
+    const openTags: HtmlToken[] = [];
+    let current = '';
+    let length = 0;
+    let limit = firstLimit;
+
+    const flush = () => {
+      if (length > 0) {
+        const closing = openTags.slice().reverse().map(tag => `</${tag.name}>`).join('');
+        chunks.push(current.replace(/\s+$/, '') + closing);
+      }
+      // Reopen the tags that were still open so formatting continues in the next chunk
+      current = openTags.map(tag => tag.raw).join('');
+      length = 0;
+      limit = nextLimit;
+    };
+
+    for (const token of this.tokenize(html)) {
+      if (token.kind === 'open') {
+        openTags.push(token);
+        current += token.raw;
+        continue;
+      }
+
+      if (token.kind === 'close') {
+        const openIndex = openTags.map(tag => tag.name).lastIndexOf(token.name!);
+        if (openIndex !== -1) openTags.splice(openIndex, 1);
+        current += token.raw;
+        continue;
+      }
+
+      let text = this.decodeEntities(token.raw);
+      while (text.length > 0) {
+        if (length === 0) {
+          // Never start a chunk with whitespace left over from the split point
+          text = text.replace(/^\s+/, '');
+          if (!text) break;
+        }
+
+        const available = limit - length;
+        if (text.length <= available) {
+          current += this.escapePlainText(text);
+          length += text.length;
+          break;
+        }
+
+        let cut = this.findBreak(text, available);
+        if (cut <= 0) {
+          if (length > 0) {
+            // Word does not fit: move it to the next chunk whole
+            flush();
+            continue;
+          }
+          // A single word longer than the limit has to be cut
+          cut = this.isHighSurrogate(text, available - 1) ? available - 1 : available;
+        }
+
+        current += this.escapePlainText(text.slice(0, cut));
+        length += cut;
+        text = text.slice(cut);
+        flush();
+      }
+    }
+
+    flush();
+    return chunks;
+  }
+
+  private findBreak(text: string, available: number): number {
+    // Look one character past the limit so a break exactly at the limit is allowed
+    const window = text.slice(0, available + 1);
+
+    // Prefer paragraph/line boundaries when they don't waste more than half the chunk
+    const newline = window.lastIndexOf('\n');
+    if (newline > available / 2) return newline;
+
+    for (let i = window.length - 1; i > 0; i--) {
+      if (/\s/.test(window[i])) return i;
+    }
+    return -1;
+  }
+
+  private tokenize(html: string): HtmlToken[] {
+    const tokens: HtmlToken[] = [];
+    let lastIndex = 0;
+
+    for (const match of Array.from(html.matchAll(TAG_PATTERN))) {
+      if (match.index! > lastIndex) {
+        tokens.push({ kind: 'text', raw: html.slice(lastIndex, match.index) });
+      }
+      tokens.push({
+        kind: match[1] === '/' ? 'close' : 'open',
+        name: match[2].toLowerCase(),
+        raw: match[0],
+      });
+      lastIndex = match.index! + match[0].length;
+    }
+
+    if (lastIndex < html.length) {
+      tokens.push({ kind: 'text', raw: html.slice(lastIndex) });
+    }
+    return tokens;
+  }
+
+  private buildOpenTag(name: string, attributes: string): string | null {
+    switch (name) {
+      case 'a': {
+        const href = this.readAttribute(attributes, 'href');
+        // Telegram only opens these schemes; anything else (e.g. javascript:) is dropped
+        return href && /^(https?:|tg:|mailto:)/i.test(href.trim())
+          ? `<a href="${this.escapeAttribute(href.trim())}">`
+          : null;
+      }
+      case 'span':
+        // Telegram only understands spans used as spoilers
+        return /class\s*=\s*["']?[^"']*tg-spoiler/i.test(attributes) ? '<span class="tg-spoiler">' : null;
+      case 'code': {
+        const className = this.readAttribute(attributes, 'class');
+        return className && /^language-[\w+-]+$/.test(className)
+          ? `<code class="${className}">`
+          : '<code>';
+      }
+      case 'blockquote':
+        return /\bexpandable\b/i.test(attributes) ? '<blockquote expandable>' : '<blockquote>';
+      case 'tg-emoji': {
+        const emojiId = this.readAttribute(attributes, 'emoji-id');
+        return emojiId && /^\d+$/.test(emojiId) ? `<tg-emoji emoji-id="${emojiId}">` : null;
+      }
+      default:
+        return `<${name}>`;
+    }
+  }
+
+  private readAttribute(attributes: string, name: string): string | null {
+    const match = attributes.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+    if (!match) return null;
+    return this.decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+  }
+
+  private escapeText(text: string): string {
+    // Leave valid entities alone so already-escaped text is not double-escaped
+    return text
+      .replace(/&(?!(lt|gt|amp|quot|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private escapePlainText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(ENTITY_PATTERN, (_, entity: string) => {
+      switch (entity) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        default: {
+          const code = entity.startsWith('#x')
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+          return code <= 0x10FFFF ? String.fromCodePoint(code) : '';
+        }
+      }
+    });
+  }
+
+  private isHighSurrogate(text: string, index: number): boolean {
+    const code = text.charCodeAt(index);
+    return code >= 0xD800 && code <= 0xDBFF;
+  }
+}
+
+export const messageFormatter = new MessageFormatter();
@@ -0,0 +1,209 @@
+// Telegram allows about 30 messages per second per bot, and about 20 per minute into one chat
+const GLOBAL_RATE_PER_SECOND = 30;
+const GLOBAL_BURST = 30;
+const CHAT_RATE_PER_SECOND = 20 / 60;
+const CHAT_BURST = 3;
+
+export type SendPriority = 'high' | 'normal';
+
+// Bucket key of the main bot, which has no row in the bots table
+const MAIN_BOT = 'main';
+
+interface QueueJob<T> {
+  botId: string; // Bot that sends the job; each bot token has its own global limit
+  chatId: string;
+  priority: SendPriority;
+  enqueuedAt: number;
+  run: () => Promise<T>;
+  cost: (result: T) => number;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface OutboundQueueStats {
+  depth: number; // Jobs waiting to be sent
+  active: number; // Jobs currently being sent
+  byChat: Record<string, number>; // Waiting jobs per target chat
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Milliseconds until at least one token is available (0 if one is available now)
+   */
+  waitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  // May go negative: a post's real message count is only known after it was sent
+  consume(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Outbound queue in front of TelegramService. Every send goes through its bot's global
+ * token bucket and a per-chat token bucket; jobs for one chat run one at a time so a post's
+ * messages are never interleaved with another post's. A bot or chat that is out of tokens
+ * only holds back its own jobs, and high-priority (manual) jobs are started first.
+ */
+export class OutboundQueue {
+  private jobs: QueueJob<any>[] = [];
+  private activeChats = new Set<string>();
+  private botBuckets = new Map<string, TokenBucket>();
+  private chatBuckets = new Map<string, TokenBucket>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Queues a send for the given chat and resolves with its result once it has run.
+   * @param botId Bot from the bots table that sends the job, or null/undefined for the main bot
+   * @param cost Number of messages the job actually sent, charged against the limits
+   */
+  enqueue<T>(
+    chatId: string | number,
+    run: () => Promise<T>,
+    options: { priority?: SendPriority; botId?: string | null; cost?: (result: T) => number } = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.jobs.push({
+        botId: options.botId || MAIN_BOT,
+        chatId: String(chatId),
+        priority: options.priority || 'normal',
+        enqueuedAt: Date.now(),
+        run,
+        cost: options.cost || (() => 1),
+        resolve,
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  getStats(): OutboundQueueStats {
+    const byChat: Record<string, number> = {};
+    for (const job of this.jobs) {
+      byChat[job.chatId] = (byChat[job.chatId] || 0) + 1;
+    }
+
+    return {
+      depth: this.jobs.length,
+      active: this.activeChats.size,
+      byChat,
+    };
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // High priority first, then oldest first
+    this.jobs.sort((a, b) =>
+      (a.priority === b.priority ? 0 : a.priority === 'high' ? -1 : 1) || a.enqueuedAt - b.enqueuedAt
+    );
+
+    let nextWake = Infinity;
+    const throttledBots = new Set<string>();
+
+    for (const job of [...this.jobs]) {
+      if (this.activeChats.has(job.chatId)) continue; // Woken again when that job settles
+      if (throttledBots.has(job.botId)) continue;
+
+      const botWait = this.getBotBucket(job.botId).waitTime();
+      if (botWait > 0) {
+        // Later jobs of this bot wait too, so they cannot overtake this one
+        throttledBots.add(job.botId);
+        nextWake = Math.min(nextWake, botWait);
+        continue;
+      }
+
+      const chatWait = this.getChatBucket(job.chatId).waitTime();
+      if (chatWait > 0) {
+        nextWake = Math.min(nextWake, chatWait);
+        continue;
+      }
+
+      this.start(job);
+    }
+
+    if (nextWake !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), nextWake);
+    }
+  }
+
+  private start<T>(job: QueueJob<T>): void {
+    this.jobs.splice(this.jobs.indexOf(job), 1);
+    this.activeChats.add(job.chatId);
+
+    // Reserve one message up front so parallel jobs cannot overdraw the bot's bucket
+    const botBucket = this.getBotBucket(job.botId);
+    const chatBucket = this.getChatBucket(job.chatId);
+    botBucket.consume(1);
+    chatBucket.consume(1);
+
+    job.run()
+      .then(result => {
+        const extra = Math.max(job.cost(result) - 1, 0);
+        botBucket.consume(extra);
+        chatBucket.consume(extra);
+        job.resolve(result);
+      })
+      .catch(error => job.reject(error))
+      .finally(() => {
+        this.activeChats.delete(job.chatId);
+        this.cleanupBuckets();
+        this.pump();
+      });
+  }
+
+  private getBotBucket(botId: string): TokenBucket {
+    let bucket = this.botBuckets.get(botId);
+    if (!bucket) {
+      bucket = new TokenBucket(GLOBAL_BURST, GLOBAL_RATE_PER_SECOND);
+      this.botBuckets.set(botId, bucket);
+    }
+    return bucket;
+  }
+
+  private getChatBucket(chatId: string): TokenBucket {
+    let bucket = this.chatBuckets.get(chatId);
+    if (!bucket) {
+      bucket = new TokenBucket(CHAT_BURST, CHAT_RATE_PER_SECOND);
+      this.chatBuckets.set(chatId, bucket);
+    }
+    return bucket;
+  }
+
+  // Idle chats with a full bucket behave exactly like a new bucket, so drop them. Bot
+  // buckets are kept: there are only a few bots
+  private cleanupBuckets(): void {
+    this.chatBuckets.forEach((bucket, chatId) => {
+      if (!this.activeChats.has(chatId) && bucket.isFull() && !this.jobs.some(job => job.chatId === chatId)) {
+        this.chatBuckets.delete(chatId);
+      }
+    });
+  }
+}
+
+export const outboundQueue = new OutboundQueue();
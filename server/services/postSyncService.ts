@@ -0,0 +1,148 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import { storage } from '../storage';
+import { botRegistry } from './botRegistry';
+import type { TelegramService } from './telegram';
+import { schedulerService } from './scheduler';
+import { translationService } from './translationService';
+import { resolveTargetLanguage } from '@shared/languages';
+import type { Post, ScheduledPost } from '@shared/schema';
+
+/**
+ * Keeps copies in target channels in sync with later changes: edits and deletions made
+ * from the dashboard, and edits of the source post when a pair has syncEdits enabled.
+ */
+export class PostSyncService {
+  async editPost(post: Post, content: string): Promise<Post | undefined> {
+    const channelPair = await storage.getChannelPair(post.channelPairId!);
+    if (!channelPair) {
+      throw new Error(`Channel pair ${post.channelPairId} not found`);
+    }
+
+    const repostedMessages = await botRegistry.forChannelPair(channelPair).editPublishedPost(
+      post.repostedMessages || [],
+      await schedulerService.buildPostContent(content, channelPair, {
+        originalPostId: post.originalPostId,
+        date: post.postedAt,
+      })
+    );
+
+    const updated = await storage.updatePost(post.id, { content, repostedMessages });
+
+    await storage.createActivityLog({
+      type: 'post_edited',
+      description: `Published post edited in ${channelPair.targetName}`,
+      channelPairId: channelPair.id,
+      postId: post.id,
+    });
+
+    return updated;
+  }
+
+  async deletePost(post: Post): Promise<Post | undefined> {
+    await (await this.botForPair(post.channelPairId)).deletePublishedPost(post.repostedMessages || []);
+
+    // Keep the row so the parsers still treat the source message as processed
+    const updated = await storage.updatePost(post.id, { status: 'deleted', repostedMessages: [] });
+
+    await storage.createActivityLog({
+      type: 'post_deleted',
+      description: `Published post deleted from target channel`,
+      channelPairId: post.channelPairId,
+      postId: post.id,
+    });
+
+    return updated;
+  }
+
+  async editScheduledPost(scheduledPost: ScheduledPost, content: string): Promise<ScheduledPost | undefined> {
+    const channelPair = await storage.getChannelPair(scheduledPost.channelPairId);
+    if (!channelPair) {
+      throw new Error(`Channel pair ${scheduledPost.channelPairId} not found`);
+    }
+
+    const publishedMessages = await botRegistry.forChannelPair(channelPair).editPublishedPost(
+      scheduledPost.publishedMessages || [],
+      await schedulerService.buildScheduledPostContent({ ...scheduledPost, content }, channelPair)
+    );
+
+    const updated = await storage.updateScheduledPost(scheduledPost.id, { content, publishedMessages });
+
+    await storage.createActivityLog({
+      type: 'scheduled_post_edited',
+      description: `Published scheduled post "${scheduledPost.title}" edited`,
+      channelPairId: scheduledPost.channelPairId,
+    });
+
+    return updated;
+  }
+
+  async deleteScheduledPost(scheduledPost: ScheduledPost): Promise<ScheduledPost | undefined> {
+    await (await this.botForPair(scheduledPost.channelPairId)).deletePublishedPost(scheduledPost.publishedMessages || []);
+
+    const updated = await storage.updateScheduledPost(scheduledPost.id, {
+      status: 'deleted',
+      publishedMessages: [],
+    });
+
+    await storage.createActivityLog({
+      type: 'scheduled_post_deleted',
+      description: `Published scheduled post "${scheduledPost.title}" deleted from target channel`,
+      channelPairId: scheduledPost.channelPairId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Mirrors an edited source post (edited_channel_post update) to every pair that
+   * reposted it and has edit sync enabled.
+   * The Bot API has no update for deleted channel posts, so deletions cannot be mirrored.
+   */
+  async handleSourceEdit(message: TelegramBot.Message): Promise<void> {
+    const channelPairs = await storage.getChannelPairs();
+    const matchingPairs = channelPairs.filter(pair =>
+      pair.syncEdits &&
+      pair.sourceUsername.replace('@', '') === message.chat.username
+    );
+
+    for (const pair of matchingPairs) {
+      const post = await storage.getPostByOriginalId(message.message_id.toString(), pair.id);
+      if (!post || post.status !== 'posted' || !post.repostedMessages?.length) continue;
+
+      try {
+        let content = message.text || message.caption || '';
+
+        if (pair.autoTranslate && content.length > 0) {
+          const translationResult = await translationService.translate(content, resolveTargetLanguage(pair.targetLanguage), {
+            source: 'edit_sync',
+            channelPairId: pair.id,
+            glossaryId: pair.glossaryId,
+          });
+          if (translationResult.wasTranslated) {
+            content = translationResult.translatedText;
+          }
+        }
+
+        await this.editPost(post, content);
+        console.log(`✏️ Mirrored edit of source post ${message.message_id} to ${pair.targetName}`);
+      } catch (error) {
+        console.error(`❌ Failed to mirror edit of source post ${message.message_id}:`, error);
+
+        await storage.createActivityLog({
+          type: 'post_edit_sync_failed',
+          description: `Failed to mirror source edit to ${pair.targetName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          channelPairId: pair.id,
+          postId: post.id,
+        });
+      }
+    }
+  }
+
+  // Published messages can only be changed by the bot that sent them
+  private async botForPair(channelPairId: string | null): Promise<TelegramService> {
+    const channelPair = channelPairId ? await storage.getChannelPair(channelPairId) : undefined;
+    return channelPair ? botRegistry.forChannelPair(channelPair) : botRegistry.get();
+  }
+}
+
+export const postSyncService = new PostSyncService();
@@ -0,0 +1,108 @@
+export const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Telegram error descriptions that will not go away by retrying the same request
+const PERMANENT_TELEGRAM_ERRORS = [
+  'chat not found',
+  'bot was kicked',
+  'bot was blocked',
+  'bot is not a member',
+  'not enough rights',
+  'have no rights',
+  'need administrator rights',
+  'chat_write_forbidden',
+  'peer_id_invalid',
+  'user is deactivated',
+  'group chat was upgraded',
+  'wrong file identifier',
+  "can't parse entities",
+  'message is too long',
+  'message caption is too long',
+];
+
+export interface ErrorClassification {
+  permanent: boolean;
+  retryAfterMs?: number; // Delay requested by Telegram in a 429 response
+  message: string;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  nextAttemptAt?: Date;
+  message: string;
+}
+
+export class RetryPolicy {
+  /**
+   * Sorts a send error into permanent (configuration problems such as a missing chat or
+   * revoked rights) or transient (flood limits, Telegram outages, network failures).
+   * Unknown errors are treated as transient so a post is not lost to a one-off glitch.
+   */
+  classify(error: unknown): ErrorClassification {
+    const message = this.getErrorMessage(error);
+    const body = (error as any)?.response?.body;
+    const errorCode: number | undefined = body?.error_code;
+
+    if (errorCode === 429) {
+      const retryAfter = Number(body?.parameters?.retry_after);
+      return {
+        permanent: false,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+        message,
+      };
+    }
+
+    const lowerMessage = message.toLowerCase();
+    if (PERMANENT_TELEGRAM_ERRORS.some(pattern => lowerMessage.includes(pattern))) {
+      return { permanent: true, message };
+    }
+
+    if (errorCode !== undefined) {
+      // 400/401/403/404 mean the request itself is wrong; 5xx are Telegram-side problems
+      return { permanent: errorCode >= 400 && errorCode < 500, message };
+    }
+
+    // Network failures (EFATAL, timeouts, resets) and anything unrecognized, including
+    // "Bot not initialized" since the bot may still be configured from the settings page
+    return { permanent: false, message };
+  }
+
+  /**
+   * Decides whether a failed send should be retried and when.
+   * @param attemptCount Attempts made so far, including the one that just failed
+   */
+  decide(error: unknown, attemptCount: number): RetryDecision {
+    const classification = this.classify(error);
+
+    if (classification.permanent) {
+      return { retry: false, message: classification.message };
+    }
+
+    if (attemptCount >= MAX_ATTEMPTS) {
+      return { retry: false, message: `${classification.message} (gave up after ${attemptCount} attempts)` };
+    }
+
+    const delay = Math.max(this.getBackoffDelay(attemptCount), classification.retryAfterMs || 0);
+    return {
+      retry: true,
+      nextAttemptAt: new Date(Date.now() + delay),
+      message: classification.message,
+    };
+  }
+
+  private getBackoffDelay(attemptCount: number): number {
+    const exponential = BASE_DELAY_MS * Math.pow(2, Math.max(attemptCount - 1, 0));
+    // Up to 20% jitter so posts that failed together do not retry in lockstep
+    const jitter = exponential * 0.2 * Math.random();
+    return Math.min(exponential + jitter, MAX_DELAY_MS);
+  }
+
+  private getErrorMessage(error: unknown): string {
+    const description = (error as any)?.response?.body?.description;
+    if (description) return String(description);
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+export const retryPolicy = new RetryPolicy();
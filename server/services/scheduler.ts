@@ -1,17 +1,38 @@
 import * as cron from 'node-cron';
 import { storage } from '../storage';
-import { telegramService } from './telegram';
-import { imageProcessor } from './imageProcessor';
+import { botRegistry } from './botRegistry';
 import { translationService } from './translationService';
+import { messageFormatter } from './messageFormatter';
+import { retryPolicy, type RetryDecision } from './retryPolicy';
+import { outboundQueue, type SendPriority } from './outboundQueue';
+import { brandingService, type BrandingContext } from './brandingService';
+import { normalizeContentFilters } from '@shared/filters';
+import type { BrandingTemplate } from '@shared/branding';
+import type { ChannelPair, Post, PublishedMessage, ScheduledPost } from '@shared/schema';
 
 export class SchedulerService {
   private jobs: Map<string, cron.ScheduledTask> = new Map();
   private isMonitoring = false;
+  private releasedStaleClaims = false;
 
   async startMonitoring(): Promise<void> {
     if (this.isMonitoring) return;
 
     this.isMonitoring = true;
+
+    // On the first start nothing is in flight yet, so any post still claimed was cut off
+    // by a crash or restart. Later restarts may race the outbound queue and are skipped.
+    if (!this.releasedStaleClaims) {
+      this.releasedStaleClaims = true;
+      try {
+        const released = await storage.releaseSendingPosts();
+        if (released > 0) {
+          console.log(`Released ${released} post(s) left in sending state`);
+        }
+      } catch (error) {
+        console.error('Error releasing posts left in sending state:', error);
+      }
+    }
     
     // Check for pending posts every minute
     const pendingPostsJob = cron.schedule('* * * * *', async () => {
@@ -52,48 +73,24 @@ export class SchedulerService {
   async processPendingPosts(): Promise<void> {
     try {
       const posts = await storage.getPosts();
-      const pendingPosts = posts.filter(post => 
-        post.status === 'pending' && 
-        post.scheduledAt && 
-        new Date(post.scheduledAt) <= new Date()
-      );
+      const now = new Date();
+      const pendingPosts = posts.filter(post => {
+        if (post.status !== 'pending') return false;
+        // Posts waiting for a retry are due at nextAttemptAt instead of their original time
+        const dueAt = post.nextAttemptAt || post.scheduledAt;
+        return !!dueAt && new Date(dueAt) <= now;
+      });
 
       for (const post of pendingPosts) {
         try {
           const channelPair = await storage.getChannelPair(post.channelPairId!);
           if (!channelPair || channelPair.status !== 'active') continue;
 
-          // Process and send the post
-          await this.sendScheduledPost(post, channelPair);
-
-          // Update post status
-          await storage.updatePost(post.id, {
-            status: 'posted',
-            postedAt: new Date(),
-          });
-
-          // Log activity
-          await storage.createActivityLog({
-            type: 'post_sent',
-            description: `Post sent successfully to ${channelPair.targetName}`,
-            channelPairId: channelPair.id,
-            postId: post.id,
-          });
+          await this.deliverPost(post, channelPair, `Post sent successfully to ${channelPair.targetName}`);
 
         } catch (error) {
           console.error(`Failed to send scheduled post ${post.id}:`, error);
-          
-          await storage.updatePost(post.id, {
-            status: 'failed',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          });
-
-          await storage.createActivityLog({
-            type: 'post_failed',
-            description: `Failed to send post: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            channelPairId: post.channelPairId!,
-            postId: post.id,
-          });
+          await this.handlePostFailure(post, error);
         }
       }
     } catch (error) {
@@ -101,9 +98,156 @@ export class SchedulerService {
     }
   }
 
-  private async sendScheduledPost(post: any, channelPair: any): Promise<void> {
+  /**
+   * Sends a post right away with manual priority, regardless of its retry schedule.
+   * Used by the "retry now" action; the attempt counter starts over.
+   */
+  async publishPostNow(postId: string): Promise<Post | undefined> {
+    const post = await storage.getPost(postId);
+    if (!post) {
+      throw new Error(`Post ${postId} not found`);
+    }
+
+    const channelPair = await storage.getChannelPair(post.channelPairId!);
+    if (!channelPair) {
+      throw new Error(`Channel pair ${post.channelPairId} not found`);
+    }
+
+    const resetPost = await storage.updatePost(postId, {
+      status: 'pending',
+      attemptCount: 0,
+      nextAttemptAt: null,
+      errorMessage: null,
+    });
+
+    try {
+      await this.deliverPost(resetPost || post, channelPair, `Post resent manually to ${channelPair.targetName}`, 'high');
+    } catch (error) {
+      console.error(`Manual retry of post ${postId} failed:`, error);
+      await this.handlePostFailure({ ...post, attemptCount: 0 }, error);
+    }
+
+    return await storage.getPost(postId);
+  }
+
+  private async deliverPost(
+    post: Post,
+    channelPair: ChannelPair,
+    description: string,
+    priority: SendPriority = 'normal'
+  ): Promise<void> {
+    // Claim the post so the next cron tick does not pick it up while it waits in the queue
+    await storage.updatePost(post.id, { status: 'sending' });
+
+    // Process and send the post
+    const publishedMessages = await this.sendScheduledPost(post, channelPair, priority);
+
+    // Update post status
+    await storage.updatePost(post.id, {
+      status: 'posted',
+      postedAt: new Date(),
+      attemptCount: (post.attemptCount || 0) + 1,
+      nextAttemptAt: null,
+      errorMessage: null,
+      ...this.publishedFields(publishedMessages),
+    });
+
+    // Log activity
+    await storage.createActivityLog({
+      type: 'post_sent',
+      description,
+      channelPairId: channelPair.id,
+      postId: post.id,
+    });
+  }
+
+  /**
+   * Records a failed send attempt: transient errors put the post back in the queue with
+   * a backoff delay, permanent ones (or too many attempts) mark it as failed.
+   */
+  private async handlePostFailure(post: Post, error: unknown): Promise<RetryDecision> {
+    const attemptCount = (post.attemptCount || 0) + 1;
+    const decision = retryPolicy.decide(error, attemptCount);
+
+    if (decision.retry) {
+      await storage.updatePost(post.id, {
+        status: 'pending',
+        attemptCount,
+        nextAttemptAt: decision.nextAttemptAt,
+        lastError: decision.message,
+      });
+
+      await storage.createActivityLog({
+        type: 'post_retry_scheduled',
+        description: `Attempt ${attemptCount} failed, retrying at ${decision.nextAttemptAt!.toLocaleString()}: ${decision.message}`,
+        channelPairId: post.channelPairId,
+        postId: post.id,
+      });
+    } else {
+      await storage.updatePost(post.id, {
+        status: 'failed',
+        attemptCount,
+        nextAttemptAt: null,
+        lastError: decision.message,
+        errorMessage: decision.message,
+      });
+
+      await storage.createActivityLog({
+        type: 'post_failed',
+        description: `Failed to send post: ${decision.message}`,
+        channelPairId: post.channelPairId,
+        postId: post.id,
+      });
+    }
+
+    return decision;
+  }
+
+  private async sendScheduledPost(
+    post: Post,
+    channelPair: ChannelPair,
+    priority: SendPriority = 'normal'
+  ): Promise<PublishedMessage[]> {
+    const content = await this.buildPostContent(post.content || '', channelPair, {
+      originalPostId: post.originalPostId,
+    });
+
+    return await this.sendToTarget(channelPair, content, post.mediaUrls || [], priority);
+  }
+
+  /**
+   * Sends through the outbound queue so bursts from several pairs stay within
+   * Telegram's per-chat and global limits
+   */
+  private async sendToTarget(
+    channelPair: ChannelPair,
+    content: string,
+    media: Post['mediaUrls'],
+    priority: SendPriority
+  ): Promise<PublishedMessage[]> {
+    return await outboundQueue.enqueue(
+      channelPair.targetUsername,
+      // Uses the dedicated method that handles CDN issues
+      () => botRegistry.forChannelPair(channelPair).sendPostToChannel(channelPair.targetUsername, content, media || [], channelPair.imagePipeline),
+      { priority, botId: channelPair.botId, cost: messages => messages.length }
+    );
+  }
+
+  /**
+   * Applies the pair's content filters, HTML sanitizing and branding to source text.
+   * Used both for new posts and for re-rendering edited ones.
+   * @param template Branding to use instead of the configured one (previews)
+   */
+  async buildPostContent(
+    sourceContent: string,
+    channelPair: ChannelPair,
+    context: Omit<BrandingContext, 'content'> = {},
+    template?: BrandingTemplate | null
+  ): Promise<string> {
+    const contentFilters = normalizeContentFilters(channelPair.contentFilters);
+    
     // Apply content filters
-    let content = post.content || '';
+    let content = sourceContent;
     
     // Remove the placeholder text that appears when media is not available (critical fix)
     content = content.replace(/📸\s*\[Медиа доступно в исходном канале\]/gi, '');
@@ -112,29 +256,44 @@ export class SchedulerService {
     // No additional translation needed here
     
     // Remove original channel mentions if configured
-    if (channelPair.contentFilters?.removeChannelMentions) {
+    if (contentFilters.removeChannelMentions) {
       content = content.replace(/@\w+/g, '');
     }
     
     // Remove external links if configured
-    if (channelPair.contentFilters?.removeExternalLinks) {
+    if (contentFilters.removeExternalLinks) {
       content = content.replace(/https?:\/\/[^\s]+/g, '');
     }
     
     // Clean up extra whitespace after all replacements
     content = content.replace(/\n\s*\n/g, '\n').trim();
     
-    // Add custom branding if configured
-    if (channelPair.customBranding) {
-      content += '\n\n' + channelPair.customBranding;
-    }
+    // Make parsed text safe for Telegram's HTML parse mode
+    content = messageFormatter.sanitizeHtml(content);
+    
+    // Wrap with the pair's (or the global default) branding header and footer
+    return await brandingService.apply(content, channelPair, { ...context, content }, template);
+  }
 
-    // Send the post using the dedicated method that handles CDN issues
-    await telegramService.sendPostToChannel(
-      channelPair.targetUsername,
+  /**
+   * Scheduled posts are written by hand, so they get sanitizing and branding only
+   */
+  async buildScheduledPostContent(scheduledPost: ScheduledPost, channelPair: ChannelPair): Promise<string> {
+    const content = messageFormatter.sanitizeHtml(scheduledPost.content);
+    return await brandingService.apply(content, channelPair, {
       content,
-      post.mediaUrls || []
-    );
+      date: scheduledPost.publishedAt,
+    });
+  }
+
+  /**
+   * Columns that record where a post ended up in the target channel
+   */
+  private publishedFields(messages: PublishedMessage[]): { repostedPostId: string | null; repostedMessages: PublishedMessage[] } {
+    return {
+      repostedPostId: messages.length > 0 ? String(messages[0].messageId) : null,
+      repostedMessages: messages,
+    };
   }
 
   private async cleanupOldLogs(): Promise<void> {
@@ -154,52 +313,30 @@ export class SchedulerService {
   ): Promise<void> {
     // If delay is 0, process immediately
     if (delayMinutes === 0) {
-      try {
-        const post = await storage.getPost(postId);
-        if (!post) {
-          throw new Error(`Post ${postId} not found`);
-        }
+      const post = await storage.getPost(postId);
+      if (!post) {
+        throw new Error(`Post ${postId} not found`);
+      }
 
+      try {
         const channelPair = await storage.getChannelPair(post.channelPairId!);
         if (!channelPair) {
           throw new Error(`Channel pair ${post.channelPairId} not found`);
         }
 
         if (channelPair.status === 'active') {
-          // Process and send the post immediately
-          await this.sendScheduledPost(post, channelPair);
-
-          // Update post status
-          await storage.updatePost(postId, {
-            status: 'posted',
-            postedAt: new Date(),
-          });
-
-          // Log activity
-          await storage.createActivityLog({
-            type: 'post_sent',
-            description: `Post sent immediately to ${channelPair.targetName}`,
-            channelPairId: channelPair.id,
-            postId: postId,
-          });
+          await this.deliverPost(post, channelPair, `Post sent immediately to ${channelPair.targetName}`);
         } else {
           throw new Error(`Channel pair ${channelPair.id} is not active`);
         }
       } catch (error) {
         console.error(`Failed to send immediate post ${postId}:`, error);
-        
-        await storage.updatePost(postId, {
-          status: 'failed',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        });
-
-        await storage.createActivityLog({
-          type: 'post_failed',
-          description: `Failed to send immediate post: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          channelPairId: (await storage.getPost(postId))?.channelPairId || null,
-          postId: postId,
-        });
-        throw error;
+
+        // A retry is already queued for transient errors; only permanent failures propagate
+        const decision = await this.handlePostFailure(post, error);
+        if (!decision.retry) {
+          throw error;
+        }
       }
     } else {
       // Schedule for later processing
@@ -225,60 +362,120 @@ export class SchedulerService {
             continue;
           }
 
-          // Process and translate content if needed
-          let content = scheduledPost.content;
-          
-          // Content is already translated during web parsing if auto-translate is enabled
-          // No additional translation needed here
-
-          // Add custom branding if configured
-          if (channelPair.customBranding) {
-            content += '\n\n' + channelPair.customBranding;
-          }
-
-          // Send the post
-          await telegramService.sendPostToChannel(
-            channelPair.targetUsername,
-            content,
-            scheduledPost.mediaUrls || []
-          );
-
-          // Update scheduled post status
-          await storage.updateScheduledPost(scheduledPost.id, {
-            status: 'published',
-            publishedAt: new Date(),
-          });
-
-          // Log activity
-          await storage.createActivityLog({
-            type: 'scheduled_post_published',
-            description: `Scheduled post "${scheduledPost.title}" published to ${channelPair.targetName}`,
-            channelPairId: scheduledPost.channelPairId,
-          });
-
-          console.log(`📅 Published scheduled post: ${scheduledPost.title} to ${channelPair.targetName}`);
+          await this.deliverScheduledPost(scheduledPost, channelPair);
 
         } catch (error) {
           console.error(`❌ Failed to publish scheduled post ${scheduledPost.id}:`, error);
-          
-          // Update status to failed
-          await storage.updateScheduledPost(scheduledPost.id, {
-            status: 'failed',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          });
-
-          // Log failure
-          await storage.createActivityLog({
-            type: 'scheduled_post_failed',
-            description: `Failed to publish scheduled post "${scheduledPost.title}": ${error instanceof Error ? error.message : 'Unknown error'}`,
-            channelPairId: scheduledPost.channelPairId,
-          });
+          await this.handleScheduledPostFailure(scheduledPost, error);
         }
       }
     } catch (error) {
       console.error('❌ Error processing scheduled posts:', error);
     }
   }
+
+  /**
+   * Publishes a scheduled post right away with manual priority, used for draft publishing
+   * and "retry now"; the attempt counter starts over.
+   */
+  async publishScheduledPostNow(scheduledPostId: string): Promise<ScheduledPost | undefined> {
+    const scheduledPost = await storage.getScheduledPost(scheduledPostId);
+    if (!scheduledPost) {
+      throw new Error(`Scheduled post ${scheduledPostId} not found`);
+    }
+
+    const channelPair = await storage.getChannelPair(scheduledPost.channelPairId);
+    if (!channelPair) {
+      throw new Error(`Channel pair ${scheduledPost.channelPairId} not found`);
+    }
+
+    const resetPost = await storage.updateScheduledPost(scheduledPostId, {
+      status: 'scheduled',
+      attemptCount: 0,
+      nextAttemptAt: null,
+      errorMessage: null,
+    });
+
+    try {
+      await this.deliverScheduledPost(resetPost || scheduledPost, channelPair, 'high');
+    } catch (error) {
+      console.error(`❌ Manual retry of scheduled post ${scheduledPostId} failed:`, error);
+      await this.handleScheduledPostFailure({ ...scheduledPost, attemptCount: 0 }, error);
+    }
+
+    return await storage.getScheduledPost(scheduledPostId);
+  }
+
+  private async deliverScheduledPost(
+    scheduledPost: ScheduledPost,
+    channelPair: ChannelPair,
+    priority: SendPriority = 'normal'
+  ): Promise<void> {
+    // Claim the post so the next cron tick does not pick it up while it waits in the queue
+    await storage.updateScheduledPost(scheduledPost.id, { status: 'sending' });
+
+    const content = await this.buildScheduledPostContent(scheduledPost, channelPair);
+
+    // Send the post
+    const publishedMessages = await this.sendToTarget(channelPair, content, scheduledPost.mediaUrls, priority);
+
+    // Update scheduled post status
+    await storage.updateScheduledPost(scheduledPost.id, {
+      status: 'published',
+      publishedAt: new Date(),
+      publishedPostId: publishedMessages.length > 0 ? String(publishedMessages[0].messageId) : null,
+      publishedMessages,
+      attemptCount: (scheduledPost.attemptCount || 0) + 1,
+      nextAttemptAt: null,
+      errorMessage: null,
+    });
+
+    // Log activity
+    await storage.createActivityLog({
+      type: 'scheduled_post_published',
+      description: `Scheduled post "${scheduledPost.title}" published to ${channelPair.targetName}`,
+      channelPairId: scheduledPost.channelPairId,
+    });
+
+    console.log(`📅 Published scheduled post: ${scheduledPost.title} to ${channelPair.targetName}`);
+  }
+
+  private async handleScheduledPostFailure(scheduledPost: ScheduledPost, error: unknown): Promise<RetryDecision> {
+    const attemptCount = (scheduledPost.attemptCount || 0) + 1;
+    const decision = retryPolicy.decide(error, attemptCount);
+
+    if (decision.retry) {
+      // Back to "scheduled"; getPendingScheduledPosts skips it until nextAttemptAt
+      await storage.updateScheduledPost(scheduledPost.id, {
+        status: 'scheduled',
+        attemptCount,
+        nextAttemptAt: decision.nextAttemptAt,
+        lastError: decision.message,
+      });
+
+      await storage.createActivityLog({
+        type: 'scheduled_post_retry_scheduled',
+        description: `Attempt ${attemptCount} to publish "${scheduledPost.title}" failed, retrying at ${decision.nextAttemptAt!.toLocaleString()}: ${decision.message}`,
+        channelPairId: scheduledPost.channelPairId,
+      });
+    } else {
+      await storage.updateScheduledPost(scheduledPost.id, {
+        status: 'failed',
+        attemptCount,
+        nextAttemptAt: null,
+        lastError: decision.message,
+        errorMessage: decision.message,
+      });
+
+      await storage.createActivityLog({
+        type: 'scheduled_post_failed',
+        description: `Failed to publish scheduled post "${scheduledPost.title}": ${decision.message}`,
+        channelPairId: scheduledPost.channelPairId,
+      });
+    }
+
+    return decision;
+  }
 }
 
 export const schedulerService = new SchedulerService();
@@ -0,0 +1,186 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { storage } from '../storage';
+import { botRegistry } from './botRegistry';
+import { telegramService, type TelegramService } from './telegram';
+import { webChannelParserService } from './webChannelParser';
+import { DEFAULT_TIME_ZONE, startOfDayInZone } from '@shared/timezone';
+import type { ChannelPair, SubscriberGrowth } from '@shared/schema';
+
+// Hourly, so a snapshot missed during downtime is taken soon after the restart
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Calendar day of `date` in the workspace time zone, as snapshots are keyed
+function dayOf(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+}
+
+async function workspaceTimeZone(): Promise<string> {
+  const settings = await storage.getSettings();
+  return settings?.timezone || DEFAULT_TIME_ZONE;
+}
+
+function normalizeUsername(username: string): string {
+  return username.replace('@', '').toLowerCase();
+}
+
+interface TrackedChannel {
+  username: string;
+  bot: TelegramService; // Bot most likely to see the channel: the pair's bot for targets
+}
+
+/**
+ * Takes one subscriber count per channel and day (in the workspace time zone) for every
+ * source and target, and keeps channelPairs.sourceSubscribers/targetSubscribers current.
+ */
+export class SubscriberTrackerService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isCapturing = false;
+
+  async startTracking(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    console.log('📈 Starting subscriber tracker...');
+
+    this.checkInterval = setInterval(() => this.captureMissing(), CHECK_INTERVAL_MS);
+    setTimeout(() => this.captureMissing(), 90000);
+  }
+
+  async stopTracking(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.isRunning = false;
+  }
+
+  /**
+   * Snapshots every channel that has no count for today yet.
+   */
+  async captureMissing(): Promise<void> {
+    if (this.isCapturing) return;
+    this.isCapturing = true;
+
+    try {
+      const today = dayOf(new Date(), await workspaceTimeZone());
+      const channelPairs = await storage.getChannelPairs();
+      const channels = this.collectChannels(channelPairs);
+
+      const done = new Set((await storage.getSubscriberSnapshots(today)).map(snapshot => snapshot.channelUsername));
+      const missing = channels.filter(channel => !done.has(channel.username));
+      if (missing.length === 0) return;
+
+      console.log(`📈 Taking subscriber snapshots of ${missing.length} channels`);
+      const counts = new Map<string, number>();
+      for (const channel of missing) {
+        const count = await this.capture(channel, today);
+        if (count !== null) counts.set(channel.username, count);
+      }
+
+      for (const pair of channelPairs) {
+        const sourceSubscribers = counts.get(normalizeUsername(pair.sourceUsername));
+        const targetSubscribers = counts.get(normalizeUsername(pair.targetUsername));
+        if (sourceSubscribers === undefined && targetSubscribers === undefined) continue;
+
+        await storage.updateChannelPairHealth(pair.id, {
+          ...(sourceSubscribers !== undefined ? { sourceSubscribers } : {}),
+          ...(targetSubscribers !== undefined ? { targetSubscribers } : {}),
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error taking subscriber snapshots:', error);
+    } finally {
+      this.isCapturing = false;
+    }
+  }
+
+  /**
+   * Daily subscriber series of every target channel over the last `days` days.
+   */
+  async getTargetGrowth(days: number): Promise<SubscriberGrowth[]> {
+    const channelPairs = await storage.getChannelPairs();
+    const targets = new Map<string, string>();
+    for (const pair of channelPairs) {
+      targets.set(normalizeUsername(pair.targetUsername), pair.targetName);
+    }
+
+    const timeZone = await workspaceTimeZone();
+    const sinceDay = dayOf(startOfDayInZone(new Date(), timeZone, days - 1), timeZone);
+    const snapshots = await storage.getSubscriberSnapshots(sinceDay, Array.from(targets.keys()));
+
+    return Array.from(targets.entries()).map(([channelUsername, name]) => ({
+      channelUsername,
+      name,
+      points: snapshots
+        .filter(snapshot => snapshot.channelUsername === channelUsername)
+        .map(snapshot => ({ day: snapshot.day, subscribers: snapshot.subscribers })),
+    }));
+  }
+
+  /**
+   * Subscribers all target channels gained over the last 7 days, measured from each
+   * channel's oldest snapshot in that window. Null while no channel has two snapshots.
+   */
+  async getWeeklyTargetGrowth(): Promise<number | null> {
+    const growth = await this.getTargetGrowth(8);
+
+    let total: number | null = null;
+    for (const { points } of growth) {
+      if (points.length < 2) continue;
+      total = (total ?? 0) + points[points.length - 1].subscribers - points[0].subscribers;
+    }
+    return total;
+  }
+
+  private collectChannels(channelPairs: ChannelPair[]): TrackedChannel[] {
+    const channels = new Map<string, TrackedChannel>();
+
+    for (const pair of channelPairs) {
+      const target = normalizeUsername(pair.targetUsername);
+      try {
+        channels.set(target, { username: target, bot: botRegistry.forChannelPair(pair) });
+      } catch {
+        channels.set(target, { username: target, bot: telegramService });
+      }
+    }
+
+    for (const pair of channelPairs) {
+      const source = normalizeUsername(pair.sourceUsername);
+      if (!channels.has(source)) {
+        channels.set(source, { username: source, bot: telegramService });
+      }
+    }
+
+    return Array.from(channels.values());
+  }
+
+  private async capture(channel: TrackedChannel, day: string): Promise<number | null> {
+    let subscribers: number | null = null;
+    let method = 'bot';
+
+    if (channel.bot.getBot()) {
+      try {
+        subscribers = (await channel.bot.getChannelInfo(`@${channel.username}`)).memberCount;
+      } catch {
+        // Not visible to the bot; fall back to the public page
+      }
+    }
+
+    if (subscribers === null) {
+      method = 'web';
+      try {
+        subscribers = await webChannelParserService.getWebSubscriberCount(channel.username);
+      } catch (error) {
+        console.error(`❌ Could not read subscribers of ${channel.username}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (subscribers === null) return null;
+
+    await storage.upsertSubscriberSnapshot({ channelUsername: channel.username, day, subscribers, method });
+    return subscribers;
+  }
+}
+
+export const subscriberTracker = new SubscriberTrackerService();
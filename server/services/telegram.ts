@@ -1,20 +1,67 @@
 import TelegramBot from 'node-telegram-bot-api';
 import axios from 'axios';
 import FormData from 'form-data';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { normalizeMediaItems, type MediaItem, type MediaType } from '@shared/media';
+import type { BotMode, HealthCheckResult, ImagePipelineConfig, PublishedMessage } from '@shared/schema';
+import { messageFormatter } from './messageFormatter';
+import { imageProcessor } from './imageProcessor';
+
+// Telegram accepts at most 10 items per sendMediaGroup call
+const MEDIA_GROUP_LIMIT = 10;
+
+// Bot API limit for files uploaded by the bot itself
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+interface ResolvedMedia {
+  type: MediaType;
+  input: string | Buffer; // file_id or downloaded file contents
+}
+
+// An album item as sendMediaGroup really takes it: the library uploads Buffer media as
+// attachments and passes document and audio items through, but InputMedia only allows
+// string photo and video entries
+type MediaGroupItem = Omit<TelegramBot.InputMediaBase, 'media'> & {
+  type: MediaType;
+  media: string | Buffer;
+};
+
+// Path Telegram posts updates to in webhook mode, relative to the configured public URL
+export const WEBHOOK_PATH = '/api/telegram/webhook';
+
+interface UpdateHandlers {
+  onNewMessage: (message: TelegramBot.Message) => void;
+  onEditedMessage?: (message: TelegramBot.Message) => void;
+}
 
 export class TelegramService {
   private bot: TelegramBot | null = null;
   private botToken: string | null = null;
   private isPolling = false;
+  private updateHandlers: UpdateHandlers | null = null;
+  private webhookUrl: string | null = null; // Set while the webhook is registered
+  private webhookSecret: string | null = null;
 
   getBot(): TelegramBot | null {
     return this.bot;
   }
 
+  /**
+   * Calls getMe, which fails when the token was revoked or Telegram is unreachable.
+   */
+  async getMe(): Promise<TelegramBot.User> {
+    if (!this.bot) throw new Error('Bot not initialized');
+    return await this.bot.getMe();
+  }
+
   async initializeBot(token: string): Promise<boolean> {
     try {
+      // The previous bot must stop receiving before it is replaced
+      await this.stopPolling();
+
       this.botToken = token;
       this.bot = new TelegramBot(token, { polling: false });
+      this.attachUpdateHandlers();
       
       // Test the bot
       await this.bot.getMe();
@@ -25,10 +72,23 @@ export class TelegramService {
     }
   }
 
-  async startPolling(onNewMessage: (message: TelegramBot.Message) => void): Promise<void> {
-    if (!this.bot || this.isPolling) return;
+  /**
+   * Registers the callbacks for new and edited source posts. They survive bot
+   * re-initialization and receiving mode switches.
+   */
+  setUpdateHandlers(
+    onNewMessage: (message: TelegramBot.Message) => void,
+    onEditedMessage?: (message: TelegramBot.Message) => void
+  ): void {
+    this.updateHandlers = { onNewMessage, onEditedMessage };
+    this.attachUpdateHandlers();
+  }
 
-    this.isPolling = true;
+  private attachUpdateHandlers(): void {
+    if (!this.bot || !this.updateHandlers) return;
+
+    const { onNewMessage, onEditedMessage } = this.updateHandlers;
+    this.bot.removeAllListeners();
     
     // Add error handler before starting polling
     this.bot.on('polling_error', (error) => {
@@ -45,6 +105,14 @@ export class TelegramService {
       onNewMessage(message);
     });
 
+    this.bot.on('edited_channel_post', (message: TelegramBot.Message) => {
+      console.log('✏️ EDITED CHANNEL POST EVENT:', {
+        chat_username: message.chat.username,
+        message_id: message.message_id,
+      });
+      onEditedMessage?.(message);
+    });
+
     this.bot.on('message', (message: TelegramBot.Message) => {
       console.log('💬 MESSAGE EVENT:', {
         chat_username: message.chat.username,
@@ -56,7 +124,29 @@ export class TelegramService {
       // Process all messages, not just channel type
       onNewMessage(message);
     });
+  }
 
+  /**
+   * Switches how updates are received. Polling and a registered webhook exclude each
+   * other on Telegram's side, so the other one is always torn down first.
+   */
+  async setUpdateMode(mode: BotMode, publicUrl?: string | null): Promise<void> {
+    if (!this.bot) throw new Error('Bot not initialized');
+
+    if (mode === 'webhook') {
+      if (!publicUrl) throw new Error('Webhook mode requires a public URL');
+      await this.stopPolling();
+      await this.startWebhook(publicUrl);
+    } else {
+      await this.stopWebhook();
+      await this.startPolling();
+    }
+  }
+
+  async startPolling(): Promise<void> {
+    if (!this.bot || this.isPolling) return;
+
+    this.isPolling = true;
     this.bot.startPolling();
     console.log('🤖 Telegram bot polling started');
     
@@ -72,10 +162,53 @@ export class TelegramService {
   async stopPolling(): Promise<void> {
     if (!this.bot || !this.isPolling) return;
     
-    this.bot.stopPolling();
+    await this.bot.stopPolling();
     this.isPolling = false;
   }
 
+  private async startWebhook(publicUrl: string): Promise<void> {
+    if (!this.bot) return;
+
+    const url = new URL(WEBHOOK_PATH, publicUrl).toString();
+    // A fresh secret on every registration; Telegram echoes it back in every update
+    const secret = randomBytes(32).toString('hex');
+
+    await this.bot.setWebHook(url, { secret_token: secret });
+
+    this.webhookUrl = url;
+    this.webhookSecret = secret;
+    console.log(`🪝 Telegram webhook registered at ${url}`);
+  }
+
+  private async stopWebhook(): Promise<void> {
+    if (!this.bot) return;
+
+    // Also clears a webhook left over from a previous run, which would block getUpdates
+    await this.bot.deleteWebHook();
+    if (this.webhookUrl) {
+      console.log('🪝 Telegram webhook removed');
+    }
+    this.webhookUrl = null;
+    this.webhookSecret = null;
+  }
+
+  /**
+   * Checks the X-Telegram-Bot-Api-Secret-Token header of an incoming webhook request.
+   * Always false outside webhook mode.
+   */
+  verifyWebhookSecret(token: string | undefined): boolean {
+    if (!this.webhookSecret || !token) return false;
+
+    const expected = Buffer.from(this.webhookSecret);
+    const received = Buffer.from(token);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  getUpdateMode(): { mode: BotMode | null; webhookUrl: string | null } {
+    if (this.webhookUrl) return { mode: 'webhook', webhookUrl: this.webhookUrl };
+    return { mode: this.isPolling ? 'polling' : null, webhookUrl: null };
+  }
+
   async getChannelInfo(channelUsername: string): Promise<any> {
     if (!this.bot) throw new Error('Bot not initialized');
 
@@ -155,50 +288,355 @@ export class TelegramService {
     }
   }
 
-  async sendPostToChannel(targetUsername: string, content: string, mediaUrls: string[] = []): Promise<void> {
+  /**
+   * Checks that this bot can post to the channel: its creator, or an administrator
+   * with the post messages right.
+   */
+  async checkPostingRights(channelUsername: string): Promise<HealthCheckResult> {
+    if (!this.bot) return { ok: false, message: 'Bot not initialized' };
+
+    try {
+      const botInfo = await this.bot.getMe();
+      const chat = await this.bot.getChat(`@${channelUsername.replace('@', '')}`);
+      const member = await this.bot.getChatMember(chat.id, botInfo.id);
+
+      if (member.status === 'creator') return { ok: true };
+      if (member.status !== 'administrator') {
+        return { ok: false, message: `@${botInfo.username} is not an administrator of the channel` };
+      }
+      if (chat.type === 'channel' && member.can_post_messages === false) {
+        return { ok: false, message: `@${botInfo.username} has no right to post messages` };
+      }
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Sends a post (text, media or both) to the target channel.
+   * @param imagePipeline The pair's photo processing; when enabled, every photo is downloaded
+   *   and re-uploaded processed instead of being reused by file_id
+   * @returns Every message the bot sent, so the copy can be edited or deleted later
+   */
+  async sendPostToChannel(
+    targetUsername: string,
+    content: string,
+    media: Array<MediaItem | string> = [],
+    imagePipeline?: ImagePipelineConfig | null
+  ): Promise<PublishedMessage[]> {
     if (!this.bot) {
       throw new Error('Bot not initialized');
     }
 
     try {
       const chatId = targetUsername;
+      const mediaItems = normalizeMediaItems(media);
       
-      if (mediaUrls.length > 0) {
-        // Try to download and validate multiple images until we find a valid one
-        for (const mediaUrl of mediaUrls) {
-          console.log(`🔍 Trying media: ${mediaUrl}`);
-          const imageBuffer = await this.downloadImage(mediaUrl);
+      if (mediaItems.length > 0) {
+        // Resolve every item up front: file_ids are reused as-is, URLs are downloaded
+        const resolved: ResolvedMedia[] = [];
+        for (const item of mediaItems) {
+          console.log(`🔍 Trying ${item.type}: ${item.fileId || item.url}`);
+          const input = await this.resolveMediaInput(item, imagePipeline);
           
-          if (imageBuffer) {
-            console.log(`✅ Successfully using media: ${mediaUrl}`);
-            await this.bot.sendPhoto(chatId, imageBuffer, {
-              caption: content,
-              parse_mode: 'HTML'
-            });
-            return;
+          if (input) {
+            resolved.push({ type: item.type, input });
+            continue;
           }
           
-          console.log(`⚠️ Skipping invalid media: ${mediaUrl}`);
+          console.log(`⚠️ Skipping invalid ${item.type}: ${item.url}`);
         }
         
-        console.log(`📝 No valid images found, sending text-only message`);
+        if (resolved.length > 0) {
+          // Text that does not fit into the caption follows as separate messages
+          const { caption, messages } = messageFormatter.splitMessage(content, true);
+          const sent = await this.sendResolvedMedia(chatId, resolved, caption || '');
+          sent.push(...await this.sendTextMessages(chatId, messages));
+          return this.toPublishedMessages(sent);
+        }
+        
+        console.log(`📝 No valid media found, sending text-only message`);
       }
       
       // Fallback to text-only message (no valid media found or no media provided)
-      if (content && content.trim()) {
-        await this.bot.sendMessage(chatId, content, {
-          parse_mode: 'HTML'
-        });
-      } else {
-        console.log(`⚠️ Skipping post - no content and no valid media`);
+      const { messages } = messageFormatter.splitMessage(content, false);
+      if (messages.length > 0) {
+        return this.toPublishedMessages(await this.sendTextMessages(chatId, messages));
       }
       
+      console.log(`⚠️ Skipping post - no content and no valid media`);
+      return [];
+      
     } catch (error) {
       console.error('Error sending post to channel:', error);
       throw error;
     }
   }
 
+  /**
+   * Replaces the text of an already published post. The new text is split the same way as
+   * on send; it may use fewer messages than before (surplus ones are deleted) but not more.
+   * @returns The messages that still make up the post
+   */
+  async editPublishedPost(messages: PublishedMessage[], content: string): Promise<PublishedMessage[]> {
+    if (!this.bot) throw new Error('Bot not initialized');
+
+    const captionMessage = messages.find(m => m.role === 'caption') || messages.find(m => m.role === 'media');
+    const textMessages = messages.filter(m => m.role === 'text');
+    const { caption, messages: chunks } = messageFormatter.splitMessage(content, !!captionMessage);
+
+    if (chunks.length > textMessages.length) {
+      throw new Error(
+        `Edited text needs ${chunks.length} text message(s) but only ${textMessages.length} were published`
+      );
+    }
+
+    if (captionMessage) {
+      await this.ignoreNotModified(this.bot.editMessageCaption(caption || '', {
+        chat_id: captionMessage.chatId,
+        message_id: captionMessage.messageId,
+        parse_mode: 'HTML',
+      }));
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      await this.ignoreNotModified(this.bot.editMessageText(chunks[i], {
+        chat_id: textMessages[i].chatId,
+        message_id: textMessages[i].messageId,
+        parse_mode: 'HTML',
+      }));
+    }
+
+    const surplus = textMessages.slice(chunks.length);
+    await this.deletePublishedPost(surplus);
+
+    return messages
+      .filter(m => !surplus.includes(m))
+      .map(m => m === captionMessage && caption ? { ...m, role: 'caption' as const } : m);
+  }
+
+  /**
+   * Deletes every message of a published post. Messages that are already gone are ignored.
+   */
+  async deletePublishedPost(messages: PublishedMessage[]): Promise<void> {
+    if (!this.bot) throw new Error('Bot not initialized');
+
+    for (const message of messages) {
+      try {
+        await this.bot.deleteMessage(message.chatId, message.messageId);
+      } catch (error) {
+        if (this.getErrorDescription(error).includes('message to delete not found')) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async ignoreNotModified(request: Promise<unknown>): Promise<void> {
+    try {
+      await request;
+    } catch (error) {
+      // Telegram rejects edits that leave the message unchanged
+      if (!this.getErrorDescription(error).includes('message is not modified')) {
+        throw error;
+      }
+    }
+  }
+
+  private getErrorDescription(error: unknown): string {
+    const description = (error as any)?.response?.body?.description;
+    return String(description || (error instanceof Error ? error.message : error));
+  }
+
+  private toPublishedMessages(messages: TelegramBot.Message[]): PublishedMessage[] {
+    return messages.map(message => ({
+      chatId: message.chat.id,
+      messageId: message.message_id,
+      role: message.text !== undefined ? 'text' : message.caption ? 'caption' : 'media',
+    }));
+  }
+
+  private async sendTextMessages(chatId: string, messages: string[]): Promise<TelegramBot.Message[]> {
+    if (!this.bot) throw new Error('Bot not initialized');
+
+    const sent: TelegramBot.Message[] = [];
+    for (const text of messages) {
+      sent.push(await this.bot.sendMessage(chatId, text, {
+        parse_mode: 'HTML'
+      }));
+    }
+    return sent;
+  }
+
+  /**
+   * Extracts typed media from a Bot API message (polling, webhook or getUpdates).
+   * Only file_ids are recorded, so reposting never has to download the files.
+   */
+  extractMessageMedia(message: TelegramBot.Message): MediaItem[] {
+    const media: MediaItem[] = [];
+
+    if (message.photo && message.photo.length > 0) {
+      // Get the largest photo
+      media.push({ type: 'photo', fileId: message.photo[message.photo.length - 1].file_id });
+    }
+
+    if (message.video) {
+      media.push({ type: 'video', fileId: message.video.file_id });
+    }
+
+    // Animations also carry a `document` field, so they must be checked first
+    if (message.animation) {
+      media.push({ type: 'animation', fileId: message.animation.file_id });
+    } else if (message.document) {
+      media.push({ type: 'document', fileId: message.document.file_id });
+    }
+
+    if (message.audio) {
+      media.push({ type: 'audio', fileId: message.audio.file_id });
+    }
+
+    if (message.voice) {
+      media.push({ type: 'voice', fileId: message.voice.file_id });
+    }
+
+    return media;
+  }
+
+  private async resolveMediaInput(
+    item: MediaItem,
+    imagePipeline?: ImagePipelineConfig | null
+  ): Promise<string | Buffer | null> {
+    if (item.type === 'photo' && imagePipeline?.enabled) {
+      return await this.resolveProcessedPhoto(item, imagePipeline);
+    }
+
+    if (item.fileId) {
+      return item.fileId;
+    }
+
+    if (!item.url) {
+      return null;
+    }
+
+    return item.type === 'photo'
+      ? await this.downloadImage(item.url)
+      : await this.downloadMedia(item.url);
+  }
+
+  private async resolveProcessedPhoto(
+    item: MediaItem,
+    imagePipeline: ImagePipelineConfig
+  ): Promise<string | Buffer | null> {
+    const original = item.fileId
+      ? await this.downloadTelegramFile(item.fileId)
+      : await this.downloadImage(item.url!);
+
+    if (!original) {
+      // Without the file there is nothing to process; a file_id can still be sent as-is
+      return item.fileId || null;
+    }
+
+    try {
+      const processed = await imageProcessor.applyPipeline(original, imagePipeline);
+      console.log(`🎨 Processed photo: ${original.length} → ${processed.length} bytes`);
+      return processed;
+    } catch (error) {
+      console.error(`⚠️ Image pipeline failed, sending the original photo:`, error);
+      return original;
+    }
+  }
+
+  private async sendResolvedMedia(
+    chatId: string,
+    media: ResolvedMedia[],
+    content: string
+  ): Promise<TelegramBot.Message[]> {
+    // The caption is attached to whatever goes out first and is not repeated
+    let caption: string | undefined = content;
+    const takeCaption = () => {
+      const current = caption;
+      caption = undefined;
+      return current;
+    };
+
+    // Photos and videos can share one album; documents and audio only group with their own kind
+    const sent: TelegramBot.Message[] = [];
+    sent.push(...await this.sendMediaBatch(chatId, media.filter(m => m.type === 'photo' || m.type === 'video'), takeCaption));
+    sent.push(...await this.sendMediaBatch(chatId, media.filter(m => m.type === 'document'), takeCaption));
+    sent.push(...await this.sendMediaBatch(chatId, media.filter(m => m.type === 'audio'), takeCaption));
+
+    // Animations and voice notes cannot be part of a media group
+    for (const item of media.filter(m => m.type === 'animation' || m.type === 'voice')) {
+      sent.push(await this.sendSingleMedia(chatId, item, takeCaption()));
+    }
+    return sent;
+  }
+
+  private async sendMediaBatch(
+    chatId: string,
+    media: ResolvedMedia[],
+    takeCaption: () => string | undefined
+  ): Promise<TelegramBot.Message[]> {
+    if (!this.bot || media.length === 0) return [];
+
+    if (media.length === 1) {
+      return [await this.sendSingleMedia(chatId, media[0], takeCaption())];
+    }
+
+    // Split into groups whose sizes differ by at most one, so none ends up with a single item
+    // (Telegram requires 2-10 per album)
+    const groupCount = Math.ceil(media.length / MEDIA_GROUP_LIMIT);
+    const sent: TelegramBot.Message[] = [];
+
+    let start = 0;
+    for (let groupIndex = 0; groupIndex < groupCount; groupIndex++) {
+      const size = Math.floor(media.length / groupCount) + (groupIndex < media.length % groupCount ? 1 : 0);
+      const items = media.slice(start, start + size);
+      start += size;
+
+      // sendMediaGroup rejects a single item; send it on its own instead
+      if (items.length === 1) {
+        sent.push(await this.sendSingleMedia(chatId, items[0], takeCaption()));
+        continue;
+      }
+
+      const caption = takeCaption();
+      const group = items.map((item, index): MediaGroupItem => ({
+        type: item.type,
+        media: item.input,
+        // Caption goes on the first item of the first album only
+        ...(index === 0 && caption ? { caption, parse_mode: 'HTML' as const } : {}),
+      }));
+
+      console.log(`🖼️ Sending media group ${groupIndex + 1}/${groupCount} (${group.length} items)`);
+      sent.push(...await this.bot.sendMediaGroup(chatId, group as readonly TelegramBot.InputMedia[]));
+    }
+    return sent;
+  }
+
+  private async sendSingleMedia(chatId: string, item: ResolvedMedia, caption?: string): Promise<TelegramBot.Message> {
+    if (!this.bot) throw new Error('Bot not initialized');
+
+    const options: TelegramBot.SendPhotoOptions = caption ? { caption, parse_mode: 'HTML' } : {};
+
+    switch (item.type) {
+      case 'photo':
+        return await this.bot.sendPhoto(chatId, item.input, options);
+      case 'video':
+        return await this.bot.sendVideo(chatId, item.input, options);
+      case 'animation':
+        return await this.bot.sendAnimation(chatId, item.input, options);
+      case 'document':
+        return await this.bot.sendDocument(chatId, item.input, options);
+      case 'audio':
+        return await this.bot.sendAudio(chatId, item.input, options);
+      case 'voice':
+        return await this.bot.sendVoice(chatId, item.input, options);
+    }
+  }
+
   private async downloadImage(imageUrl: string): Promise<Buffer | null> {
     try {
       console.log(`📥 Downloading image: ${imageUrl}`);
@@ -233,6 +671,52 @@ export class TelegramService {
     }
   }
 
+  private async downloadTelegramFile(fileId: string): Promise<Buffer | null> {
+    if (!this.bot) return null;
+
+    try {
+      // The link contains the bot token, so it is never logged
+      const fileLink = await this.bot.getFileLink(fileId);
+      const response = await axios.get(fileLink, {
+        responseType: 'arraybuffer',
+        timeout: 60000,
+        maxContentLength: MAX_UPLOAD_SIZE
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      console.error(`❌ Failed to download Telegram file ${fileId}:`, this.getErrorDescription(error));
+      return null;
+    }
+  }
+
+  private async downloadMedia(mediaUrl: string): Promise<Buffer | null> {
+    try {
+      console.log(`📥 Downloading media: ${mediaUrl}`);
+      
+      const response = await axios.get(mediaUrl, {
+        responseType: 'arraybuffer',
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'Accept': '*/*'
+        },
+        timeout: 60000,
+        maxRedirects: 5,
+        maxContentLength: MAX_UPLOAD_SIZE
+      });
+
+      if (response.status === 200 && response.data) {
+        const buffer = Buffer.from(response.data);
+        console.log(`✅ Downloaded media: ${buffer.length} bytes`);
+        return buffer;
+      }
+      
+      return null;
+    } catch (error) {
+      console.error(`❌ Failed to download media ${mediaUrl}:`, error);
+      return null;
+    }
+  }
+
   private isValidImageBuffer(buffer: Buffer): boolean {
     // Check minimum file size (channel avatars are usually small)
     if (buffer.length < 5000) { // Less than 5KB is likely an avatar
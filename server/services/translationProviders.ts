@@ -0,0 +1,231 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { isLanguageCode, languageNames, type LanguageCode } from '@shared/languages';
+import type { TranslationProviderName } from '@shared/schema';
+import { glossaryService } from './glossary';
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+const DEFAULT_MODEL = "gpt-5";
+
+// USD per million tokens; models missing here are recorded with their tokens at zero cost
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+};
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Tokens billed for one LLM request
+export interface TokenUsage {
+  model: string;
+  operation: 'detect' | 'translate';
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1 code or "unknown"
+  usage?: TokenUsage;
+}
+
+export interface ProviderTranslation {
+  translatedText: string;
+  detectedLanguage: string; // ISO 639-1 code or "unknown"
+  usage?: TokenUsage;
+}
+
+/**
+ * A translation backend. Providers that can detect languages cheaply implement
+ * detectLanguage, so text already in the target language is never sent for translation;
+ * the others report the detected language along with the translation.
+ */
+export interface TranslationProvider {
+  readonly name: TranslationProviderName;
+  detectLanguage?(text: string): Promise<LanguageDetection>;
+  translate(text: string, targetLanguage: LanguageCode, sourceLanguage?: string): Promise<ProviderTranslation>;
+}
+
+function normalizeLanguageCode(value: string | undefined | null): string {
+  const code = value?.toLowerCase().trim().slice(0, 2) || '';
+  return /^[a-z]{2}$/.test(code) ? code : 'unknown';
+}
+
+function tokenUsage(
+  operation: TokenUsage['operation'],
+  model: string,
+  usage: OpenAI.CompletionUsage | undefined
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+
+  const pricing = MODEL_PRICING[model];
+  return {
+    model,
+    operation,
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    costUsd: pricing
+      ? (usage.prompt_tokens * pricing.input + usage.completion_tokens * pricing.output) / 1_000_000
+      : 0,
+  };
+}
+
+function englishName(language: string): string {
+  return isLanguageCode(language) ? languageNames[language].english : language;
+}
+
+export class NoopTranslationProvider implements TranslationProvider {
+  readonly name = 'none' as const;
+
+  async translate(text: string): Promise<ProviderTranslation> {
+    return { translatedText: text, detectedLanguage: 'unknown' };
+  }
+}
+
+export class OpenAITranslationProvider implements TranslationProvider {
+  readonly name = 'openai' as const;
+  private openai: OpenAI;
+
+  constructor(apiKey: string) {
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async detectLanguage(text: string): Promise<LanguageDetection> {
+    const detectionResponse = await this.openai.chat.completions.create({
+      model: DEFAULT_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: `You are a language detection expert. Analyze the given text and determine its primary language.
+
+          Rules:
+          1. Respond with the ISO 639-1 code of the language (e.g., "ru", "en", "kk", "es")
+          2. If you can't determine the language or it's mixed, respond with "unknown"
+          3. Only respond with the code, nothing else.`
+        },
+        {
+          role: "user",
+          content: text
+        }
+      ],
+      max_completion_tokens: 200
+    });
+
+    const answer = detectionResponse.choices[0]?.message?.content?.toLowerCase().trim() || '';
+    return {
+      language: /^[a-z]{2}$/.test(answer) ? answer : 'unknown',
+      usage: tokenUsage('detect', DEFAULT_MODEL, detectionResponse.usage),
+    };
+  }
+
+  async translate(text: string, targetLanguage: LanguageCode, sourceLanguage = 'unknown'): Promise<ProviderTranslation> {
+    const targetName = languageNames[targetLanguage].english;
+    const from = sourceLanguage === 'unknown' ? '' : ` from ${englishName(sourceLanguage)}`;
+    const placeholderRule = glossaryService.hasPlaceholders(text)
+      ? `\n          9. Keep placeholders such as ⟦0⟧ exactly as they are; glossary terms are put back in their place`
+      : '';
+
+    const translationResponse = await this.openai.chat.completions.create({
+      model: DEFAULT_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional translator. Translate the given text${from} to ${targetName}.
+
+          Important rules:
+          1. Preserve the original meaning, tone, and style
+          2. Keep formatting, line breaks, and structure intact
+          3. Don't add explanations or comments
+          4. If the text contains URLs, keep them unchanged
+          5. If text contains @ mentions or hashtags, preserve them
+          6. Maintain the emotional tone and context
+          7. For specialized terms or brand names, use appropriate ${targetName} transliterations
+          8. Only provide the translated text, nothing else.${placeholderRule}`
+        },
+        {
+          role: "user",
+          content: text
+        }
+      ],
+      max_completion_tokens: Math.max(1000, Math.floor(text.length * 1.5))
+    });
+
+    return {
+      translatedText: translationResponse.choices[0]?.message?.content?.trim() || text,
+      detectedLanguage: sourceLanguage,
+      usage: tokenUsage('translate', DEFAULT_MODEL, translationResponse.usage),
+    };
+  }
+}
+
+// DeepL detects the source language as part of the translation request
+export class DeepLTranslationProvider implements TranslationProvider {
+  readonly name = 'deepl' as const;
+
+  constructor(private apiKey: string) {}
+
+  async translate(text: string, targetLanguage: LanguageCode): Promise<ProviderTranslation> {
+    // Free-plan keys end in ":fx" and have their own host
+    const host = this.apiKey.endsWith(':fx') ? 'https://api-free.deepl.com' : 'https://api.deepl.com';
+
+    const response = await axios.post<{ translations: Array<{ text: string; detected_source_language: string }> }>(
+      `${host}/v2/translate`,
+      { text: [text], target_lang: this.targetCode(targetLanguage), preserve_formatting: true },
+      {
+        headers: { Authorization: `DeepL-Auth-Key ${this.apiKey}` },
+        timeout: REQUEST_TIMEOUT_MS,
+      }
+    );
+
+    const [translation] = response.data.translations;
+    return {
+      translatedText: translation?.text || text,
+      detectedLanguage: normalizeLanguageCode(translation?.detected_source_language),
+    };
+  }
+
+  // DeepL needs a regional variant for these target languages
+  private targetCode(language: LanguageCode): string {
+    if (language === 'en') return 'EN-US';
+    if (language === 'pt') return 'PT-PT';
+    return language.toUpperCase();
+  }
+}
+
+// Any server speaking the LibreTranslate API (/detect, /translate)
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly name = 'libretranslate' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private apiKey?: string | null) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async detectLanguage(text: string): Promise<LanguageDetection> {
+    const response = await axios.post<Array<{ language: string; confidence: number }>>(
+      `${this.baseUrl}/detect`,
+      { q: text, ...(this.apiKey ? { api_key: this.apiKey } : {}) },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return { language: normalizeLanguageCode(response.data[0]?.language) };
+  }
+
+  async translate(text: string, targetLanguage: LanguageCode, sourceLanguage = 'unknown'): Promise<ProviderTranslation> {
+    const response = await axios.post<{ translatedText: string; detectedLanguage?: { language: string } }>(
+      `${this.baseUrl}/translate`,
+      {
+        q: text,
+        source: sourceLanguage === 'unknown' ? 'auto' : sourceLanguage,
+        target: targetLanguage,
+        format: 'text',
+        ...(this.apiKey ? { api_key: this.apiKey } : {}),
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return {
+      translatedText: response.data.translatedText || text,
+      detectedLanguage: sourceLanguage !== 'unknown' ? sourceLanguage : normalizeLanguageCode(response.data.detectedLanguage?.language),
+    };
+  }
+}
@@ -1,140 +1,321 @@
-import OpenAI from "openai";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { LanguageCode } from "@shared/languages";
+import type { Settings, TranslationProviderName } from "@shared/schema";
+import type { AnalyticsFilter, TranslationSpend } from "@shared/analytics";
+import { DEFAULT_TIME_ZONE, startOfDayInZone, startOfMonthInZone } from "@shared/timezone";
+import { languageDetector } from "./languageDetector";
+import { glossaryService, type ProtectedText } from "./glossary";
+import {
+  DeepLTranslationProvider,
+  LibreTranslateProvider,
+  NoopTranslationProvider,
+  OpenAITranslationProvider,
+  type TokenUsage,
+  type TranslationProvider,
+} from "./translationProviders";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const DEFAULT_MODEL = "gpt-5";
+export interface TranslationResult {
+  originalText: string;
+  detectedLanguage: string; // ISO 639-1 code or "unknown"
+  targetLanguage: LanguageCode;
+  translatedText: string;
+  wasTranslated: boolean;
+  missingTerms?: string[]; // Glossary terms the translation lost; such results are not cached
+}
+
+export interface TranslationStatus {
+  provider: TranslationProviderName;
+  enabled: boolean;
+  reason?: string; // Why translation is off
+}
+
+// Who asked for a translation; recorded with the token usage it caused
+export interface TranslationContext {
+  source?: string; // bot, webhook, web, web_source, edit_sync, test
+  channelPairId?: string | null;
+  webSourceId?: string | null;
+  glossaryId?: string | null; // Glossary of the pair or web source, enforced on the translation
+}
+
+// Local detections at least this confident skip the provider's detection request
+const CONFIDENT_DETECTION = 0.8;
+
+export type TranslationConfig = Pick<
+  Settings,
+  "translationProvider" | "translationApiKey" | "translationApiUrl" | "translationMonthlyBudgetUsd" | "timezone"
+>;
 
 class TranslationService {
-  private openai: OpenAI;
+  private provider: TranslationProvider = new NoopTranslationProvider();
+  private status: TranslationStatus = { provider: 'none', enabled: false };
+  private monthlyBudgetUsd: number | null = null;
+  private timeZone = DEFAULT_TIME_ZONE;
+  private budgetExceededMonth: string | null = null; // Month the budget_exceeded log was written for
 
   constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is required for translation service");
+    // Until settings are loaded, translate with OpenAI when the environment has a key
+    this.configure(null);
+  }
+
+  /**
+   * Switches to the provider chosen in settings. A provider without its key or URL
+   * disables translation instead of failing, so posts keep flowing untranslated.
+   */
+  configure(config: TranslationConfig | null | undefined): TranslationStatus {
+    const name = (config?.translationProvider || 'openai') as TranslationProviderName;
+    const { provider, reason } = this.createProvider(name, config);
+
+    this.provider = provider;
+    this.status = { provider: name, enabled: provider.name !== 'none', ...(reason ? { reason } : {}) };
+    this.monthlyBudgetUsd = config?.translationMonthlyBudgetUsd ?? null;
+    this.timeZone = config?.timezone || DEFAULT_TIME_ZONE;
+
+    if (reason) {
+      console.warn(`⚠️ Translation disabled: ${reason}`);
+    } else if (this.status.enabled) {
+      console.log(`🌐 Translation provider: ${name}`);
+    }
+    return this.status;
+  }
+
+  getStatus(): TranslationStatus {
+    return this.status;
+  }
+
+  isEnabled(): boolean {
+    return this.status.enabled;
+  }
+
+  private createProvider(
+    name: TranslationProviderName,
+    config: TranslationConfig | null | undefined
+  ): { provider: TranslationProvider; reason?: string } {
+    const apiKey = config?.translationApiKey || undefined;
+
+    switch (name) {
+      case 'openai': {
+        const key = apiKey || process.env.OPENAI_API_KEY;
+        return key
+          ? { provider: new OpenAITranslationProvider(key) }
+          : { provider: new NoopTranslationProvider(), reason: 'OPENAI_API_KEY is not set' };
+      }
+      case 'deepl':
+        return apiKey
+          ? { provider: new DeepLTranslationProvider(apiKey) }
+          : { provider: new NoopTranslationProvider(), reason: 'DeepL API key is not set' };
+      case 'libretranslate':
+        return config?.translationApiUrl
+          ? { provider: new LibreTranslateProvider(config.translationApiUrl, apiKey) }
+          : { provider: new NoopTranslationProvider(), reason: 'LibreTranslate URL is not set' };
+      default:
+        return { provider: new NoopTranslationProvider() };
     }
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
   }
 
   /**
-   * Detects the language of the given text and translates it to Russian if needed
+   * Detects the language of the given text and translates it to the target language if needed
    * @param text - The text to analyze and potentially translate
+   * @param targetLanguage - ISO 639-1 code of the language to translate into
+   * @param context - Channel pair or web source the text comes from, for usage accounting, and its glossary
    * @returns Object containing original text, detected language, translated text (if needed), and whether translation was performed
+   * @throws When the provider request fails, so callers can record the failure and fall back to the original text
    */
-  async translateToRussian(text: string): Promise<{
-    originalText: string;
-    detectedLanguage: string;
-    translatedText: string;
-    wasTranslated: boolean;
-  }> {
-    if (!text || text.trim().length === 0) {
+  async translate(text: string, targetLanguage: LanguageCode, context: TranslationContext = {}): Promise<TranslationResult> {
+    const unchanged = (detectedLanguage: string): TranslationResult => ({
+      originalText: text,
+      detectedLanguage,
+      targetLanguage,
+      translatedText: text,
+      wasTranslated: false
+    });
+
+    if (!text || text.trim().length === 0 || !this.isEnabled()) {
+      return unchanged('unknown');
+    }
+
+    const provider = this.provider;
+    const glossary = await this.protectGlossaryTerms(text, context.glossaryId);
+    const contentHash = this.cacheKey(text, provider.name, glossary);
+    const cached = await storage.getCachedTranslation(contentHash, targetLanguage);
+    if (cached) {
+      await storage.touchCachedTranslation(cached.id);
       return {
         originalText: text,
-        detectedLanguage: 'unknown',
-        translatedText: text,
-        wasTranslated: false
+        detectedLanguage: cached.detectedLanguage,
+        targetLanguage,
+        translatedText: cached.translatedText,
+        wasTranslated: cached.wasTranslated
       };
     }
 
-    try {
-      // First, detect the language and determine if translation is needed
-      const detectionResponse = await this.openai.chat.completions.create({
-        model: DEFAULT_MODEL,
-        messages: [
-          {
-            role: "system",
-            content: `You are a language detection expert. Analyze the given text and determine its primary language. 
-            
-            Rules:
-            1. If the text is already in Russian, respond with "russian"
-            2. If the text is in another language, respond with the language name in English (e.g., "english", "spanish", "french", etc.)
-            3. If you can't determine the language or it's mixed, respond with "unknown"
-            4. Only respond with the language name, nothing else.`
-          },
-          {
-            role: "user",
-            content: text
-          }
-        ],
-        max_completion_tokens: 200
+    if (await this.isOverBudget()) {
+      return unchanged('unknown');
+    }
+
+    const remember = async (result: TranslationResult): Promise<TranslationResult> => {
+      await storage.saveCachedTranslation({
+        contentHash,
+        targetLanguage,
+        detectedLanguage: result.detectedLanguage,
+        translatedText: result.translatedText,
+        wasTranslated: result.wasTranslated,
+        provider: provider.name,
       });
+      return result;
+    };
 
-      const detectedLanguage = detectionResponse.choices[0]?.message?.content?.toLowerCase().trim() || 'unknown';
+    const sourceLanguage = await this.detectLanguage(text, provider, context);
 
-      // If already Russian or language unknown, return as is
-      if (detectedLanguage === 'russian' || detectedLanguage === 'unknown') {
-        return {
-          originalText: text,
-          detectedLanguage,
-          translatedText: text,
-          wasTranslated: false
-        };
-      }
+    // If already in the target language or language unknown, return as is
+    if (sourceLanguage === targetLanguage || sourceLanguage === 'unknown') {
+      return await remember(unchanged(sourceLanguage));
+    }
 
-      // Translate to Russian
-      const translationResponse = await this.openai.chat.completions.create({
-        model: DEFAULT_MODEL,
-        messages: [
-          {
-            role: "system",
-            content: `You are a professional translator. Translate the given text from ${detectedLanguage} to Russian.
-            
-            Important rules:
-            1. Preserve the original meaning, tone, and style
-            2. Keep formatting, line breaks, and structure intact
-            3. Don't add explanations or comments
-            4. If the text contains URLs, keep them unchanged
-            5. If text contains @ mentions or hashtags, preserve them
-            6. Maintain the emotional tone and context
-            7. For specialized terms or brand names, use appropriate Russian transliterations
-            8. Only provide the translated text, nothing else.`
-          },
-          {
-            role: "user",
-            content: text
-          }
-        ],
-        max_completion_tokens: Math.max(1000, Math.floor(text.length * 1.5))
-      });
+    const translation = await provider.translate(glossary.text, targetLanguage, sourceLanguage);
+    await this.recordUsage(provider.name, translation.usage, context);
 
-      const translatedText = translationResponse.choices[0]?.message?.content?.trim() || text;
+    // Providers without a separate detection step find out only now
+    if (translation.detectedLanguage === targetLanguage) {
+      return await remember(unchanged(targetLanguage));
+    }
 
-      console.log(`🌐 Translation: ${detectedLanguage} → Russian (${text.substring(0, 50)}...)`);
+    console.log(`🌐 Translation (${provider.name}): ${translation.detectedLanguage} → ${targetLanguage} (${text.substring(0, 50)}...)`);
 
-      return {
-        originalText: text,
-        detectedLanguage,
-        translatedText,
-        wasTranslated: true
-      };
+    const { text: translatedText, missingTerms } = glossaryService.restore(translation.translatedText, glossary);
+    const result: TranslationResult = {
+      originalText: text,
+      detectedLanguage: translation.detectedLanguage,
+      targetLanguage,
+      translatedText,
+      wasTranslated: true
+    };
 
-    } catch (error) {
-      console.error('❌ Translation error:', error);
-      // Return original text if translation fails
-      return {
-        originalText: text,
-        detectedLanguage: 'error',
-        translatedText: text,
-        wasTranslated: false
-      };
+    if (missingTerms.length > 0) {
+      await this.reportMissingTerms(missingTerms, context);
+      return { ...result, missingTerms };
+    }
+    return await remember(result);
+  }
+
+  private async protectGlossaryTerms(text: string, glossaryId: string | null | undefined): Promise<ProtectedText> {
+    const glossary = glossaryId ? await storage.getGlossary(glossaryId) : undefined;
+    return glossary
+      ? glossaryService.protect(text, glossary)
+      : { text, placeholders: [] };
+  }
+
+  // The provider and the glossary terms found in the text are part of the key, so switching
+  // provider or editing the glossary takes effect instead of serving older translations
+  private cacheKey(text: string, provider: TranslationProviderName, glossary: ProtectedText): string {
+    const hash = createHash('sha256').update(text).update('\0' + provider);
+    if (glossary.placeholders.length > 0) {
+      hash.update('\0' + JSON.stringify(glossary.placeholders.map(placeholder => placeholder.output)));
+    }
+    return hash.digest('hex');
+  }
+
+  private async reportMissingTerms(missingTerms: string[], context: TranslationContext): Promise<void> {
+    console.warn(`⚠️ Translation lost glossary terms: ${missingTerms.join(', ')}`);
+    await storage.createActivityLog({
+      type: 'glossary_terms_missing',
+      description: `Translation lost glossary terms: ${missingTerms.join(', ')}`,
+      channelPairId: context.channelPairId ?? null,
+      metadata: { missingTerms, glossaryId: context.glossaryId, webSourceId: context.webSourceId },
+    });
+  }
+
+  /**
+   * Detects the source language offline and asks the provider only when the local guess
+   * is unsure. Undefined when neither could tell, leaving detection to the translation.
+   */
+  private async detectLanguage(
+    text: string,
+    provider: TranslationProvider,
+    context: TranslationContext
+  ): Promise<string | undefined> {
+    const local = languageDetector.detect(text);
+    if (local.confidence >= CONFIDENT_DETECTION) {
+      return local.language;
+    }
+    if (!provider.detectLanguage) {
+      return undefined;
+    }
+
+    const detection = await provider.detectLanguage(text);
+    await this.recordUsage(provider.name, detection.usage, context);
+    console.log(`🔎 Local detection unsure (${local.language}, ${local.confidence}), ${provider.name} says ${detection.language}`);
+    return detection.language;
+  }
+
+  /**
+   * Spend in the filter's range by day and month, plus today's and this month's totals
+   * in the workspace time zone
+   */
+  async getSpend(filter: AnalyticsFilter): Promise<TranslationSpend> {
+    const now = new Date();
+    const [todayUsd, monthUsd, daily, monthly] = await Promise.all([
+      storage.getTranslationCost(startOfDayInZone(now, this.timeZone)),
+      storage.getTranslationCost(startOfMonthInZone(now, this.timeZone)),
+      storage.getTranslationSpend(filter, 'day', this.timeZone),
+      storage.getTranslationSpend(filter, 'month', this.timeZone),
+    ]);
+
+    return {
+      todayUsd,
+      monthUsd,
+      budgetUsd: this.monthlyBudgetUsd,
+      budgetExceeded: this.monthlyBudgetUsd !== null && monthUsd >= this.monthlyBudgetUsd,
+      daily,
+      monthly,
+    };
+  }
+
+  // A reached monthly budget pauses paid requests; cached translations keep working
+  private async isOverBudget(): Promise<boolean> {
+    if (this.monthlyBudgetUsd === null) return false;
+
+    const monthStart = startOfMonthInZone(new Date(), this.timeZone);
+    const spentUsd = await storage.getTranslationCost(monthStart);
+    if (spentUsd < this.monthlyBudgetUsd) return false;
+
+    const month = monthStart.toISOString();
+    if (this.budgetExceededMonth !== month) {
+      this.budgetExceededMonth = month;
+      console.warn(`⚠️ Translation budget reached: $${spentUsd.toFixed(2)} of $${this.monthlyBudgetUsd}`);
+      await storage.createActivityLog({
+        type: 'translation_budget_exceeded',
+        description: `Translation paused: $${spentUsd.toFixed(2)} of the $${this.monthlyBudgetUsd} monthly budget spent`,
+        metadata: { spentUsd, budgetUsd: this.monthlyBudgetUsd },
+      });
     }
+    return true;
+  }
+
+  private async recordUsage(provider: TranslationProviderName, usage: TokenUsage | undefined, context: TranslationContext): Promise<void> {
+    if (!usage) return;
+
+    await storage.recordTranslationUsage({
+      provider,
+      ...usage,
+      source: context.source ?? null,
+      channelPairId: context.channelPairId ?? null,
+      webSourceId: context.webSourceId ?? null,
+    });
   }
 
   /**
    * Batch translate multiple texts efficiently
    * @param texts - Array of texts to translate
+   * @param targetLanguage - ISO 639-1 code of the language to translate into
    * @returns Array of translation results
    */
-  async batchTranslate(texts: string[]): Promise<{
-    originalText: string;
-    detectedLanguage: string;
-    translatedText: string;
-    wasTranslated: boolean;
-  }[]> {
+  async batchTranslate(texts: string[], targetLanguage: LanguageCode): Promise<TranslationResult[]> {
     const results = [];
     
     // Process in batches to avoid rate limits
     for (const text of texts) {
-      const result = await this.translateToRussian(text);
+      const result = await this.translate(text, targetLanguage);
       results.push(result);
       
       // Small delay to avoid hitting rate limits
@@ -143,25 +324,6 @@ class TranslationService {
     
     return results;
   }
-
-  /**
-   * Check if text is likely in Russian (simple heuristic)
-   * @param text - Text to check
-   * @returns true if text appears to be in Russian
-   */
-  isRussianText(text: string): boolean {
-    // Simple check: if more than 50% of characters are Cyrillic
-    const cyrillicChars = text.match(/[а-яё]/gi);
-    const totalLetters = text.match(/[a-zA-Zа-яёА-ЯЁ]/g);
-    
-    if (!totalLetters || totalLetters.length < 10) {
-      // For short texts, be more conservative
-      return false;
-    }
-    
-    const cyrillicRatio = cyrillicChars ? cyrillicChars.length / totalLetters.length : 0;
-    return cyrillicRatio > 0.5;
-  }
 }
 
 // Export singleton instance
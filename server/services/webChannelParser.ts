@@ -1,22 +1,46 @@
 import axios, { AxiosError } from 'axios';
 import * as cheerio from 'cheerio';
 import { storage } from '../storage';
-import { schedulerService } from './scheduler';
-import { translationService } from './translationService';
-import type { ChannelPair } from '../../shared/schema';
+import { ingestionService } from './ingestion';
+import type { ChannelPair, MediaItem } from '../../shared/schema';
 import { webSocketService } from './websocketService';
 
-interface WebMessage {
+// Used when settings do not set webParserMaxPages
+const DEFAULT_MAX_PAGES = 10;
+
+// Upper bound for one-off backfills, whatever count is requested
+const BACKFILL_PAGE_LIMIT = 50;
+
+// Pause between consecutive page requests to the same channel
+const PAGE_DELAY_MS = 1500;
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+export interface WebMessage {
   messageId: number;
   text: string;
   time: Date | null;
-  media: string[];
+  media: MediaItem[];
   channelUsername: string;
 }
 
+interface FetchResult {
+  messages: WebMessage[]; // Oldest first, without duplicates
+  pagesFetched: number;
+  reachedCursor: boolean; // False when the page cap ran out before the last processed message
+}
+
 export class WebChannelParserService {
   private parsingInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private backfilling = new Set<string>(); // Channel pair IDs with a backfill in progress
 
   async startParsing(): Promise<void> {
     if (this.isRunning) return;
@@ -73,8 +97,19 @@ export class WebChannelParserService {
       // Notify WebSocket clients that channel parsing started
       webSocketService.channelParsingStarted(channelPair.sourceName);
       
-      // Get channel messages from t.me web interface
-      const messages = await this.getChannelMessagesWeb(sourceUsername);
+      // Older pages are only needed when the latest one does not reach the cursor
+      const lastProcessedId = Math.max(
+        channelPair.lastWebMessageId || 0,
+        await storage.getMaxProcessedPostId(channelPair.id)
+      );
+      const settings = await storage.getSettings();
+      const maxPages = settings?.webParserMaxPages || DEFAULT_MAX_PAGES;
+
+      const { messages, pagesFetched, reachedCursor } = await this.fetchMessagesSince(
+        sourceUsername,
+        lastProcessedId,
+        maxPages
+      );
       
       if (!messages || messages.length === 0) {
         console.log(`📭 No messages found for ${sourceUsername}`);
@@ -82,44 +117,47 @@ export class WebChannelParserService {
         return;
       }
 
-      // Get the highest processed message ID from database
-      const lastProcessedId = await storage.getMaxProcessedPostId(channelPair.id);
-      
       // Filter truly new messages that haven't been processed yet
       const potentialNewMessages = messages.filter(msg => 
         msg.messageId > lastProcessedId
       );
 
-      // Double-check against database to avoid duplicates
-      const newMessages: typeof messages = [];
-      for (const message of potentialNewMessages) {
-        const existingPost = await storage.getPostByOriginalId(
-          message.messageId.toString(), 
-          channelPair.id
-        );
-        if (!existingPost) {
-          newMessages.push(message);
-        }
+      if (lastProcessedId > 0 && pagesFetched > 1) {
+        await this.logGap(channelPair, lastProcessedId, potentialNewMessages, pagesFetched, reachedCursor);
       }
 
-      if (newMessages.length === 0) {
+      if (potentialNewMessages.length === 0) {
         console.log(`📮 No new messages for ${sourceUsername}`);
         webSocketService.channelParsingCompleted(channelPair.sourceName, 0);
         return;
       }
 
-      console.log(`📥 Found ${newMessages.length} new messages in ${sourceUsername}`);
+      // Process new messages (oldest first); ones already ingested by the bot are skipped
+      let processed = 0;
+      for (const message of potentialNewMessages) {
+        const result = await ingestionService.ingestForPair(channelPair, ingestionService.fromWebMessage(message));
+        // The cursor only moves forward, so a failed message must not pass it: stop here and
+        // let the next check retry from this message
+        if (result.outcome === 'failed') {
+          console.warn(`⚠️ Message ${message.messageId} of ${sourceUsername} failed; retrying it on the next check`);
+          break;
+        }
+        // Duplicates, filtered and disabled messages advance the cursor too: they are handled
+        // already, so moving past them loses nothing and keeps the next check from fetching them
+        await storage.updateWebCursor(channelPair.id, message.messageId);
+        if (result.outcome === 'duplicate') continue;
 
-      // Process new messages (oldest first)
-      for (const message of newMessages) {
-        await this.processWebMessage(message, channelPair);
-        
+        processed++;
         // Small delay between processing messages
         await new Promise(resolve => setTimeout(resolve, 500));
       }
-      
+
+      if (processed > 0) {
+        console.log(`📥 Processed ${processed} new messages in ${sourceUsername}`);
+      }
+
       // Notify WebSocket clients that channel parsing completed
-      webSocketService.channelParsingCompleted(channelPair.sourceName, newMessages.length);
+      webSocketService.channelParsingCompleted(channelPair.sourceName, processed);
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -136,22 +174,215 @@ export class WebChannelParserService {
     }
   }
 
-  private async getChannelMessagesWeb(channelUsername: string): Promise<WebMessage[]> {
+  /**
+   * Reads the channel from the newest page backwards (`?before=<id>`) until the last
+   * processed message is reached or `maxPages` run out. Without a cursor (first run of
+   * a pair) only the latest page is read, so old history is not reposted.
+   */
+  private async fetchMessagesSince(
+    channelUsername: string,
+    lastProcessedId: number,
+    maxPages: number
+  ): Promise<FetchResult> {
+    const byId = new Map<number, WebMessage>();
+    let before: number | undefined;
+    let pagesFetched = 0;
+    let reachedCursor = lastProcessedId === 0;
+
+    while (pagesFetched < maxPages) {
+      if (pagesFetched > 0) {
+        await new Promise(resolve => setTimeout(resolve, PAGE_DELAY_MS));
+      }
+
+      const page = await this.getChannelMessagesWeb(channelUsername, before);
+      pagesFetched++;
+
+      // A page that loaded without messages is the beginning of the channel; a failed
+      // request throws instead, so the run stops before the cursor or gap log are touched
+      if (page.length === 0) {
+        reachedCursor = true;
+        break;
+      }
+
+      page.forEach(message => byId.set(message.messageId, message));
+      const oldestId = page[0].messageId;
+
+      if (reachedCursor || oldestId <= lastProcessedId + 1) {
+        reachedCursor = true;
+        break;
+      }
+
+      // No progress: the page did not move past the previous one
+      if (before !== undefined && oldestId >= before) break;
+      before = oldestId;
+    }
+
+    return {
+      messages: Array.from(byId.values()).sort((a, b) => a.messageId - b.messageId),
+      pagesFetched,
+      reachedCursor,
+    };
+  }
+
+  private async logGap(
+    channelPair: ChannelPair,
+    lastProcessedId: number,
+    newMessages: WebMessage[],
+    pagesFetched: number,
+    reachedCursor: boolean
+  ): Promise<void> {
+    const oldestFetchedId = newMessages[0]?.messageId;
+    const metadata = {
+      lastProcessedId,
+      pagesFetched,
+      recovered: reachedCursor,
+      fetchedMessages: newMessages.length,
+      ...(reachedCursor || !oldestFetchedId ? {} : { missingFrom: lastProcessedId + 1, missingTo: oldestFetchedId - 1 }),
+    };
+
+    if (reachedCursor) {
+      console.log(`🧩 Caught up on ${newMessages.length} messages in ${channelPair.sourceName} over ${pagesFetched} pages`);
+      await storage.createActivityLog({
+        type: 'web_parsing_gap',
+        description: `Gap detected in ${channelPair.sourceName}: recovered ${newMessages.length} posts from ${pagesFetched} pages`,
+        channelPairId: channelPair.id,
+        metadata,
+      });
+      return;
+    }
+
+    console.log(`⚠️ Gap in ${channelPair.sourceName}: messages ${metadata.missingFrom}-${metadata.missingTo} not reached within ${pagesFetched} pages`);
+    await storage.createActivityLog({
+      type: 'web_parsing_gap',
+      description: `Gap detected in ${channelPair.sourceName}: posts ${metadata.missingFrom}–${metadata.missingTo} were not reached within ${pagesFetched} pages and were skipped`,
+      channelPairId: channelPair.id,
+      metadata,
+    });
+  }
+
+  isBackfilling(channelPairId: string): boolean {
+    return this.backfilling.has(channelPairId);
+  }
+
+  /**
+   * One-off import of the last `count` posts of the source channel, regardless of the
+   * cursor. Posts that already have a post or draft are skipped.
+   * @returns Number of messages that were processed
+   */
+  async backfill(channelPair: ChannelPair, count: number): Promise<number> {
+    if (this.backfilling.has(channelPair.id)) {
+      throw new Error('Backfill is already running for this channel pair');
+    }
+
+    this.backfilling.add(channelPair.id);
     try {
-      const url = `https://t.me/s/${channelUsername}`;
+      const sourceUsername = channelPair.sourceUsername.replace('@', '');
+      console.log(`⏪ Backfilling last ${count} posts of ${sourceUsername}`);
+      webSocketService.channelParsingStarted(channelPair.sourceName);
+
+      const byId = new Map<number, WebMessage>();
+      let before: number | undefined;
+      for (let page = 0; page < BACKFILL_PAGE_LIMIT && byId.size < count; page++) {
+        if (page > 0) {
+          await new Promise(resolve => setTimeout(resolve, PAGE_DELAY_MS));
+        }
+
+        const messages = await this.getChannelMessagesWeb(sourceUsername, before);
+        if (messages.length === 0 || (before !== undefined && messages[0].messageId >= before)) break;
+
+        messages.forEach(message => byId.set(message.messageId, message));
+        before = messages[0].messageId;
+      }
+
+      const latest = Array.from(byId.values())
+        .sort((a, b) => a.messageId - b.messageId)
+        .slice(-count);
+
+      let processed = 0;
+      for (const message of latest) {
+        const result = await ingestionService.ingestForPair(channelPair, ingestionService.fromWebMessage(message));
+        // Same as parseChannelWeb: stop at a failure so the cursor never passes it
+        if (result.outcome === 'failed') break;
+        await storage.updateWebCursor(channelPair.id, message.messageId);
+        if (result.outcome === 'duplicate') continue;
+
+        processed++;
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+
+      await storage.createActivityLog({
+        type: 'web_backfill_completed',
+        description: `Backfill of ${channelPair.sourceName}: ${processed} of the last ${latest.length} posts imported`,
+        channelPairId: channelPair.id,
+        metadata: { requested: count, fetched: latest.length, processed },
+      });
+
+      webSocketService.channelParsingCompleted(channelPair.sourceName, processed);
+      console.log(`✅ Backfill of ${sourceUsername} finished: ${processed} processed`);
+      return processed;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      webSocketService.parsingError(channelPair.sourceName, errorMessage);
+
+      await storage.createActivityLog({
+        type: 'web_backfill_failed',
+        description: `Backfill of ${channelPair.sourceName} failed: ${errorMessage}`,
+        channelPairId: channelPair.id,
+      });
+      throw error;
+    } finally {
+      this.backfilling.delete(channelPair.id);
+    }
+  }
+
+  /**
+   * Whether the channel has a public t.me web view. Private or missing channels are
+   * redirected to a page without the channel header. Network errors are thrown.
+   */
+  async hasPublicWebView(channelUsername: string): Promise<boolean> {
+    const response = await axios.get(`https://t.me/s/${channelUsername}`, { headers: REQUEST_HEADERS, timeout: 10000 });
+    const $ = cheerio.load(response.data);
+    return $('.tgme_channel_info').length > 0;
+  }
+
+  /**
+   * Subscriber count from the counters in the t.me web view header. Large counts are
+   * rounded there ("12.3K"), so prefer getChatMemberCount when the bot can read the channel.
+   * @returns null when the page has no subscriber counter
+   */
+  async getWebSubscriberCount(channelUsername: string): Promise<number | null> {
+    const response = await axios.get(`https://t.me/s/${channelUsername}`, { headers: REQUEST_HEADERS, timeout: 10000 });
+    const $ = cheerio.load(response.data);
+
+    let count: number | null = null;
+    $('.tgme_channel_info_counter').each((index: number, element: any) => {
+      const counter = $(element);
+      if (!/subscriber/i.test(counter.find('.counter_type').text())) return;
+
+      const match = counter.find('.counter_value').text().trim().replace(/\s/g, '').match(/^([\d.]+)([KM]?)$/i);
+      if (match) {
+        const multiplier = { K: 1e3, M: 1e6 }[match[2].toUpperCase() as 'K' | 'M'] ?? 1;
+        count = Math.round(parseFloat(match[1]) * multiplier);
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Reads one page (about 20 posts) of the channel's t.me web view, oldest first.
+   * @param before Only return messages older than this ID
+   * @throws When the page could not be loaded, so a failed request is never taken for
+   * the start of the channel
+   */
+  async getChannelMessagesWeb(channelUsername: string, before?: number): Promise<WebMessage[]> {
+    try {
+      const url = before
+        ? `https://t.me/s/${channelUsername}?before=${before}`
+        : `https://t.me/s/${channelUsername}`;
       console.log(`🌐 Fetching: ${url}`);
       
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        timeout: 10000,
-      });
+      const response = await axios.get(url, { headers: REQUEST_HEADERS, timeout: 10000 });
 
       const $ = cheerio.load(response.data);
       const messages: WebMessage[] = [];
@@ -188,11 +419,11 @@ export class WebChannelParserService {
     } catch (error: unknown) {
       if (axios.isAxiosError(error)) {
         console.error(`🌐 HTTP Error ${error.response?.status}: ${error.message}`);
-      } else {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`🌐 Web parsing error for ${channelUsername}:`, errorMessage);
+        throw new Error(`Failed to load t.me page of ${channelUsername}: ${error.response?.status ? `HTTP ${error.response.status}` : error.message}`);
       }
-      return [];
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`🌐 Web parsing error for ${channelUsername}:`, errorMessage);
+      throw error;
     }
   }
 
@@ -232,45 +463,37 @@ export class WebChannelParserService {
     return null;
   }
 
-  private extractMessageMedia(messageElement: cheerio.Cheerio<any>): string[] {
-    const media: string[] = [];
+  private extractMessageMedia(messageElement: cheerio.Cheerio<any>): MediaItem[] {
+    const media: MediaItem[] = [];
     
-    // Extract image URLs from photo wrappers (primary method for photos)
+    // Extract image URLs from photo wrappers (covers single photos and grouped albums)
     const photoWraps = messageElement.find('.tgme_widget_message_photo_wrap');
     photoWraps.each((index: number, element: any) => {
       const $elem = cheerio.load(element);
-      const style = $elem(element).attr('style');
-      if (style) {
-        const match = style.match(/background-image:url\('([^']+)'\)/);
-        if (match && this.isValidMediaUrl(match[1])) {
-          media.push(match[1]);
-        }
+      const url = this.extractBackgroundImage($elem(element).attr('style'));
+      if (url) {
+        media.push({ type: 'photo', url });
       }
     });
 
-    // Extract video thumbnails (primary method for videos)
-    const videoThumbs = messageElement.find('.tgme_widget_message_video_thumb');
-    videoThumbs.each((index: number, element: any) => {
+    // Extract videos: the web view embeds a direct file URL for small videos, otherwise
+    // only a thumbnail is available and it is reposted as a photo
+    const videoPlayers = messageElement.find('.tgme_widget_message_video_player');
+    videoPlayers.each((index: number, element: any) => {
       const $elem = cheerio.load(element);
-      const style = $elem(element).attr('style');
-      if (style) {
-        const match = style.match(/background-image:url\('([^']+)'\)/);
-        if (match && this.isValidMediaUrl(match[1])) {
-          media.push(match[1]);
-        }
+      const videoSrc = $elem('video').attr('src');
+      if (videoSrc && this.isValidMediaUrl(videoSrc)) {
+        const isGif = $elem(element).find('.message_video_duration').length === 0 &&
+          $elem('video').attr('loop') !== undefined;
+        media.push({ type: isGif ? 'animation' : 'video', url: videoSrc });
+        return;
       }
-    });
 
-    // Extract grouped media (for multiple images/videos)
-    const groupedMedia = messageElement.find('.tgme_widget_message_grouped_wrap .tgme_widget_message_photo_wrap');
-    groupedMedia.each((index: number, element: any) => {
-      const $elem = cheerio.load(element);
-      const style = $elem(element).attr('style');
-      if (style) {
-        const match = style.match(/background-image:url\('([^']+)'\)/);
-        if (match && this.isValidMediaUrl(match[1])) {
-          media.push(match[1]);
-        }
+      const thumbUrl = this.extractBackgroundImage(
+        $elem('.tgme_widget_message_video_thumb').attr('style')
+      );
+      if (thumbUrl) {
+        media.push({ type: 'photo', url: thumbUrl });
       }
     });
 
@@ -278,12 +501,19 @@ export class WebChannelParserService {
     const linkPreviews = messageElement.find('.tgme_widget_message_link_preview .link_preview_image');
     linkPreviews.each((index: number, element: any) => {
       const $elem = cheerio.load(element);
-      const style = $elem(element).attr('style');
-      if (style) {
-        const match = style.match(/background-image:url\('([^']+)'\)/);
-        if (match && this.isValidMediaUrl(match[1])) {
-          media.push(match[1]);
-        }
+      const url = this.extractBackgroundImage($elem(element).attr('style'));
+      if (url) {
+        media.push({ type: 'photo', url });
+      }
+    });
+
+    // Extract voice messages
+    const voices = messageElement.find('audio.tgme_widget_message_voice');
+    voices.each((index: number, element: any) => {
+      const $elem = cheerio.load(element);
+      const src = $elem('audio').attr('src');
+      if (src) {
+        media.push({ type: 'voice', url: src });
       }
     });
 
@@ -293,7 +523,7 @@ export class WebChannelParserService {
       const $elem = cheerio.load(element);
       const href = $elem(element).find('a').attr('href');
       if (href) {
-        media.push(href);
+        media.push({ type: 'document', url: href });
       }
     });
 
@@ -303,13 +533,19 @@ export class WebChannelParserService {
       const $elem = cheerio.load(element);
       const src = $elem(element).attr('src');
       if (src && this.isValidMediaUrl(src)) {
-        media.push(src);
+        media.push({ type: 'photo', url: src });
       }
     });
 
     return this.deduplicateMedia(media);
   }
 
+  private extractBackgroundImage(style: string | undefined): string | null {
+    if (!style) return null;
+    const match = style.match(/background-image:url\('([^']+)'\)/);
+    return match && this.isValidMediaUrl(match[1]) ? match[1] : null;
+  }
+
   private isValidMediaUrl(url: string): boolean {
     // Exclude obvious non-content images
     if (!url || url.includes('emoji') || url.includes('avatar')) {
@@ -335,132 +571,15 @@ export class WebChannelParserService {
     return true;
   }
 
-  private deduplicateMedia(media: string[]): string[] {
-    // Remove duplicates and return unique URLs
-    return Array.from(new Set(media));
-  }
-
-  private async processWebMessage(message: WebMessage, channelPair: ChannelPair): Promise<void> {
-    try {
-      console.log(`📝 Processing web message ${message.messageId} from ${channelPair.sourceName}`);
-      
-      let content = message.text || '';
-      
-      // Translate content if auto-translate is enabled and content exists
-      if (channelPair.autoTranslate && content.length > 0) {
-        try {
-          console.log(`🌐 Attempting translation for message ${message.messageId}...`);
-          const translationResult = await translationService.translateToRussian(content);
-          
-          if (translationResult.wasTranslated) {
-            content = translationResult.translatedText;
-            console.log(`✅ Translated ${translationResult.detectedLanguage} → Russian for message ${message.messageId}`);
-            
-            // Log translation success
-            await storage.createActivityLog({
-              type: 'content_translated',
-              description: `Web content translated from ${translationResult.detectedLanguage} to Russian`,
-              channelPairId: channelPair.id,
-              metadata: {
-                originalLanguage: translationResult.detectedLanguage,
-                originalLength: translationResult.originalText.length,
-                translatedLength: translationResult.translatedText.length
-              }
-            });
-          } else {
-            console.log(`ℹ️ No translation needed for message ${message.messageId} (${translationResult.detectedLanguage})`);
-          }
-        } catch (translationError) {
-          console.error(`❌ Translation failed for message ${message.messageId}:`, translationError);
-          
-          // Log translation failure but continue with original content
-          await storage.createActivityLog({
-            type: 'translation_failed',
-            description: `Web translation failed: ${translationError instanceof Error ? translationError.message : 'Unknown error'}`,
-            channelPairId: channelPair.id,
-          });
-        }
-      }
-      
-      // Handle different copy modes
-      console.log(`🔄 Processing copyMode: '${channelPair.copyMode}' for channel: ${channelPair.sourceName}`);
-      
-      // Skip processing if disabled
-      if (channelPair.copyMode === 'disabled') {
-        console.log(`⏸️ Skipping message ${message.messageId} - copyMode is disabled for ${channelPair.sourceName}`);
-        return;
-      }
-      
-      if (channelPair.copyMode === 'draft' || channelPair.copyMode === 'both') {
-        // Check if draft already exists to avoid duplicates
-        const existingDraft = await storage.getDraftPostByOriginalId(
-          message.messageId.toString(),
-          channelPair.id
-        );
-
-        if (!existingDraft) {
-          // Create draft post
-          const draftPost = await storage.createDraftPost({
-            channelPairId: channelPair.id,
-            originalPostId: message.messageId.toString(),
-            content: content,
-            originalContent: message.text || '',
-            mediaUrls: message.media || [],
-            status: 'draft',
-          });
-
-          console.log(`📝 Created draft post: ${draftPost.id} for copyMode: '${channelPair.copyMode}' ${channelPair.autoTranslate ? '(with translation)' : ''}`);
-          
-          // Notify WebSocket clients about new draft
-          webSocketService.draftCreated(channelPair.sourceName, content.substring(0, 100));
-
-          // Log draft creation
-          await storage.createActivityLog({
-            type: 'web_post_detected',
-            description: `New post web-parsed to drafts from ${channelPair.sourceName} (copyMode: ${channelPair.copyMode})${channelPair.autoTranslate ? ' (translated)' : ''}`,
-            channelPairId: channelPair.id,
-          });
-        } else {
-          console.log(`📝 Draft already exists for message ${message.messageId}, skipping...`);
-        }
-      }
-
-      if (channelPair.copyMode === 'auto_publish' || channelPair.copyMode === 'both') {
-        // Create post record with translated content for auto-posting
-        const post = await storage.createPost({
-          channelPairId: channelPair.id,
-          originalPostId: message.messageId.toString(),
-          content: content,
-          mediaUrls: message.media || [],
-          status: 'pending',
-        });
-
-        console.log(`✅ Created post record: ${post.id} ${channelPair.autoTranslate ? '(with translation)' : ''}`);
-
-        // Schedule the post
-        await schedulerService.schedulePost(post.id, channelPair.postingDelay || 0);
-
-        // Log activity
-        await storage.createActivityLog({
-          type: 'web_post_detected',
-          description: `New post web-parsed from ${channelPair.sourceName}${channelPair.autoTranslate ? ' (translated)' : ''}`,
-          channelPairId: channelPair.id,
-          postId: post.id,
-        });
-
-        console.log(`🎯 Scheduled web post from ${channelPair.sourceName} to ${channelPair.targetName}`);
-      }
-
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ Error processing web message:`, errorMessage);
-      
-      await storage.createActivityLog({
-        type: 'web_post_failed',
-        description: `Failed to process web message: ${errorMessage}`,
-        channelPairId: channelPair.id,
-      });
-    }
+  private deduplicateMedia(media: MediaItem[]): MediaItem[] {
+    // Remove duplicates by URL, keeping the first (most specific) entry
+    const seen = new Set<string>();
+    return media.filter(item => {
+      const key = item.url || item.fileId || '';
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
   }
 }
 
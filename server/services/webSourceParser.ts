@@ -2,6 +2,8 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { storage } from '../storage';
 import { translationService } from './translationService';
+import { languageDetector } from './languageDetector';
+import { resolveTargetLanguage, type LanguageCode } from '../../shared/languages';
 import { db } from '../db';
 import { webSources } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
@@ -419,30 +421,46 @@ export class WebSourceParserService {
         return;
       }
 
-      let content = `${item.title}\n\n${item.content}`;
+      const originalContent = `${item.title}\n\n${item.content}`;
+      let content = originalContent;
       if (item.url) {
         content += `\n\n🔗 ${item.url}`;
       }
 
-      // Try to translate if needed
-      try {
-        const translationResult = await translationService.translateToRussian(content);
-        if (translationResult.wasTranslated) {
-          content = translationResult.translatedText;
-          console.log(`✅ Translated web item from ${translationResult.detectedLanguage} → Russian`);
+      // Try to translate if the source has a target language
+      let translatorLanguage: string | undefined;
+      let targetLanguage: LanguageCode | undefined;
+      if (webSource.targetLanguage) {
+        try {
+          const translationResult = await translationService.translate(content, resolveTargetLanguage(webSource.targetLanguage), {
+            source: 'web_source',
+            webSourceId: webSource.id,
+            glossaryId: webSource.glossaryId,
+          });
+          translatorLanguage = translationResult.detectedLanguage;
+          if (translationResult.wasTranslated) {
+            content = translationResult.translatedText;
+            targetLanguage = translationResult.targetLanguage;
+            console.log(`✅ Translated web item from ${translationResult.detectedLanguage} → ${targetLanguage}`);
+          }
+        } catch (translationError) {
+          console.error('❌ Translation failed for web item:', translationError);
         }
-      } catch (translationError) {
-        console.error('❌ Translation failed for web item:', translationError);
       }
 
+      const originalLanguage = languageDetector.languageOf(originalContent, translatorLanguage);
+
       // Create draft post from web content
       const draftPost = await storage.createDraftPost({
         webSourceId: webSource.id,
         originalPostId: item.id,
-        originalContent: `${item.title}\n\n${item.content}`,
+        originalContent,
         content: content,
-        mediaUrls: item.images,
+        mediaUrls: item.images.map(url => ({ type: 'photo' as const, url })),
         status: 'draft',
+        isTranslated: targetLanguage !== undefined,
+        originalLanguage,
+        targetLanguage,
         sourceUrl: item.url || webSource.url,
       });
 
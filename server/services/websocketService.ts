@@ -1,7 +1,7 @@
 import WebSocket from 'ws';
 
 export interface ParseStatus {
-  type: 'web_parsing' | 'channel_parsing' | 'draft_created' | 'error';
+  type: 'web_parsing' | 'channel_parsing' | 'draft_created' | 'history_import' | 'error';
   status: 'started' | 'progress' | 'completed' | 'error';
   sourceId?: string;
   sourceName?: string;
@@ -107,6 +107,60 @@ class WebSocketService {
     });
   }
 
+  historyImportStarted(jobId: string, sourceName: string) {
+    this.broadcast({
+      type: 'history_import',
+      status: 'started',
+      sourceId: jobId,
+      sourceName,
+      sourceType: 'telegram',
+      message: `Начат импорт истории ${sourceName}`,
+      timestamp: new Date()
+    });
+  }
+
+  historyImportProgress(jobId: string, sourceName: string, count: number, total?: number) {
+    this.broadcast({
+      type: 'history_import',
+      status: 'progress',
+      sourceId: jobId,
+      sourceName,
+      sourceType: 'telegram',
+      message: total !== undefined
+        ? `Импорт ${sourceName}: обработано ${count} из ${total}`
+        : `Импорт ${sourceName}: просмотрено ${count} постов`,
+      count,
+      total,
+      timestamp: new Date()
+    });
+  }
+
+  historyImportCompleted(jobId: string, sourceName: string, count: number) {
+    this.broadcast({
+      type: 'history_import',
+      status: 'completed',
+      sourceId: jobId,
+      sourceName,
+      sourceType: 'telegram',
+      message: `Импорт истории ${sourceName} завершен: ${count} черновиков`,
+      count,
+      timestamp: new Date()
+    });
+  }
+
+  historyImportFailed(jobId: string, sourceName: string, error: string) {
+    this.broadcast({
+      type: 'history_import',
+      status: 'error',
+      sourceId: jobId,
+      sourceName,
+      sourceType: 'telegram',
+      message: `Ошибка импорта истории ${sourceName}`,
+      error,
+      timestamp: new Date()
+    });
+  }
+
   parsingError(sourceName: string, error: string) {
     this.broadcast({
       type: 'error',
@@ -9,6 +9,7 @@ import {
   type InsertSettings,
   type ScheduledPost,
   type InsertScheduledPost,
+  type ScheduledPostUpdate,
   type DraftPost,
   type InsertDraftPost,
   type WebSource,
@@ -27,6 +28,22 @@ import {
   type InsertAgentConversation,
   type ProjectPost,
   type InsertProjectPost,
+  type ContentFilters,
+  type Bot,
+  type InsertBot,
+  type Glossary,
+  type InsertGlossary,
+  type DashboardStats,
+  type SubscriberSnapshot,
+  type InsertSubscriberSnapshot,
+  type TranslationCacheEntry,
+  type InsertTranslationCacheEntry,
+  type InsertTranslationUsage,
+  bots,
+  glossaries,
+  subscriberSnapshots,
+  translationCache,
+  translationUsage,
   channelPairs,
   posts,
   activityLogs,
@@ -42,8 +59,11 @@ import {
   agentConversations,
   projectPosts
 } from "@shared/schema";
+import type { AnalyticsFilter, DraftFunnel, FailureReason, PostOutcomes, PostsPerDay, SourceLanguageCount, TranslationCounts, TranslationSpendPeriod } from "@shared/analytics";
+import { DEFAULT_TIME_ZONE, startOfCalendarDayInZone, startOfDayInZone, statsWindowDays, type StatsWindow } from "@shared/timezone";
 import { db } from "./db";
-import { eq, desc, lte, and, sql } from "drizzle-orm";
+import { eq, ne, desc, lte, gte, lt, and, or, isNull, inArray, asc, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 
 export interface IStorage {
   // Channel Pairs
@@ -52,12 +72,15 @@ export interface IStorage {
   createChannelPair(channelPair: InsertChannelPair): Promise<ChannelPair>;
   updateChannelPair(id: string, channelPair: Partial<InsertChannelPair>): Promise<ChannelPair | undefined>;
   deleteChannelPair(id: string): Promise<boolean>;
+  updateChannelPairHealth(id: string, updates: Partial<Pick<ChannelPair, "health" | "sourceSubscribers" | "targetSubscribers">>): Promise<ChannelPair | undefined>;
+  transitionChannelPairStatus(id: string, from: string, to: string, statusReason: string | null): Promise<ChannelPair | undefined>;
   
   // Posts
-  getPosts(channelPairId?: string): Promise<Post[]>;
+  getPosts(channelPairId?: string, language?: string): Promise<Post[]>;
   getPost(id: string): Promise<Post | undefined>;
   getPostByOriginalId(originalPostId: string, channelPairId: string): Promise<Post | undefined>;
   getMaxProcessedPostId(channelPairId: string): Promise<number>;
+  updateWebCursor(channelPairId: string, messageId: number): Promise<void>;
   createPost(post: InsertPost): Promise<Post>;
   updatePost(id: string, post: Partial<InsertPost>): Promise<Post | undefined>;
   
@@ -68,17 +91,20 @@ export interface IStorage {
   // Settings
   getSettings(): Promise<Settings | undefined>;
   updateSettings(settings: InsertSettings): Promise<Settings>;
+  updateGlobalFilters(globalFilters: ContentFilters): Promise<Settings>;
+  updateDefaultBranding(header: string | null, footer: string | null): Promise<Settings>;
   
   // Scheduled Posts
   getScheduledPosts(channelPairId?: string): Promise<ScheduledPost[]>;
   getScheduledPost(id: string): Promise<ScheduledPost | undefined>;
   createScheduledPost(post: InsertScheduledPost): Promise<ScheduledPost>;
-  updateScheduledPost(id: string, post: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined>;
+  updateScheduledPost(id: string, post: ScheduledPostUpdate): Promise<ScheduledPost | undefined>;
   deleteScheduledPost(id: string): Promise<boolean>;
   getPendingScheduledPosts(): Promise<ScheduledPost[]>;
+  releaseSendingPosts(): Promise<number>;
   
   // Draft Posts
-  getDraftPosts(channelPairId?: string): Promise<DraftPost[]>;
+  getDraftPosts(channelPairId?: string, language?: string): Promise<DraftPost[]>;
   getDraftPost(id: string): Promise<DraftPost | undefined>;
   createDraftPost(post: InsertDraftPost): Promise<DraftPost>;
   updateDraftPost(id: string, post: Partial<InsertDraftPost>): Promise<DraftPost | undefined>;
@@ -92,6 +118,20 @@ export interface IStorage {
   updateWebSource(id: string, webSource: Partial<InsertWebSource>): Promise<WebSource | undefined>;
   deleteWebSource(id: string): Promise<boolean>;
   
+  // Bots
+  getBots(): Promise<Bot[]>;
+  getBot(id: string): Promise<Bot | undefined>;
+  createBot(bot: InsertBot): Promise<Bot>;
+  updateBot(id: string, bot: Partial<Omit<Bot, "id" | "createdAt">>): Promise<Bot | undefined>;
+  deleteBot(id: string): Promise<boolean>;
+
+  // Glossaries
+  getGlossaries(): Promise<Glossary[]>;
+  getGlossary(id: string): Promise<Glossary | undefined>;
+  createGlossary(glossary: InsertGlossary): Promise<Glossary>;
+  updateGlossary(id: string, glossary: Partial<InsertGlossary>): Promise<Glossary | undefined>;
+  deleteGlossary(id: string): Promise<boolean>;
+  
   // Activation Tokens
   createActivationToken(token: InsertActivationToken): Promise<ActivationToken>;
   getActivationToken(token: string): Promise<ActivationToken | undefined>;
@@ -142,12 +182,28 @@ export interface IStorage {
   deleteProjectPost(id: string): Promise<boolean>;
 
   // Analytics
-  getStats(): Promise<{
-    activeChannels: number;
-    postsToday: number;
-    successRate: number;
-    errors: number;
-  }>;
+  getStats(window?: StatsWindow, timeZone?: string): Promise<DashboardStats>;
+  upsertSubscriberSnapshot(snapshot: InsertSubscriberSnapshot): Promise<SubscriberSnapshot>;
+  getSubscriberSnapshots(sinceDay: string, channelUsernames?: string[]): Promise<SubscriberSnapshot[]>;
+  getPostsPerDay(filter: AnalyticsFilter, timeZone?: string): Promise<PostsPerDay[]>;
+  getPostOutcomes(filter: AnalyticsFilter, timeZone?: string): Promise<PostOutcomes>;
+  getDraftFunnel(filter: AnalyticsFilter, timeZone?: string): Promise<DraftFunnel>;
+  getTranslationCounts(filter: AnalyticsFilter, timeZone?: string): Promise<TranslationCounts>;
+  getTopFailureReasons(filter: AnalyticsFilter, timeZone?: string, limit?: number): Promise<FailureReason[]>;
+  getSourceLanguages(filter: AnalyticsFilter, timeZone?: string): Promise<SourceLanguageCount[]>;
+
+  // Translation cache and usage
+  getCachedTranslation(contentHash: string, targetLanguage: string): Promise<TranslationCacheEntry | undefined>;
+  saveCachedTranslation(entry: InsertTranslationCacheEntry): Promise<void>;
+  touchCachedTranslation(id: string): Promise<void>;
+  recordTranslationUsage(usage: InsertTranslationUsage): Promise<void>;
+  getTranslationCost(from: Date, to?: Date): Promise<number>;
+  getTranslationSpend(filter: AnalyticsFilter, period: "day" | "month", timeZone?: string): Promise<TranslationSpendPeriod[]>;
+}
+
+// Percentage of finished posts that were posted, or null when none finished
+function successRateOf(posted: number, failed: number): number | null {
+  return posted + failed > 0 ? (posted / (posted + failed)) * 100 : null;
 }
 
 // Database Storage Implementation
@@ -172,7 +228,7 @@ export class DatabaseStorage implements IStorage {
         sourceSubscribers: insertChannelPair.sourceSubscribers || 0,
         targetSubscribers: insertChannelPair.targetSubscribers || 0,
         postingDelay: insertChannelPair.postingDelay || 0,
-        contentFilters: insertChannelPair.contentFilters || {},
+        contentFilters: insertChannelPair.contentFilters || { rules: [] },
         customBranding: insertChannelPair.customBranding || null,
       })
       .returning();
@@ -188,6 +244,28 @@ export class DatabaseStorage implements IStorage {
     return pair || undefined;
   }
 
+  async updateChannelPairHealth(
+    id: string,
+    updates: Partial<Pick<ChannelPair, "health" | "sourceSubscribers" | "targetSubscribers">>
+  ): Promise<ChannelPair | undefined> {
+    const [pair] = await db
+      .update(channelPairs)
+      .set(updates)
+      .where(eq(channelPairs.id, id))
+      .returning();
+    return pair || undefined;
+  }
+
+  async transitionChannelPairStatus(id: string, from: string, to: string, statusReason: string | null): Promise<ChannelPair | undefined> {
+    // Conditional, so a pair paused by the user in the meantime is left alone
+    const [pair] = await db
+      .update(channelPairs)
+      .set({ status: to, statusReason, updatedAt: new Date() })
+      .where(and(eq(channelPairs.id, id), eq(channelPairs.status, from)))
+      .returning();
+    return pair || undefined;
+  }
+
   async deleteChannelPair(id: string): Promise<boolean> {
     try {
       // First delete related activity logs to avoid foreign key constraint violation
@@ -205,11 +283,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getPosts(channelPairId?: string): Promise<Post[]> {
-    if (channelPairId) {
-      return await db.select().from(posts).where(eq(posts.channelPairId, channelPairId));
-    }
-    return await db.select().from(posts);
+  async getPosts(channelPairId?: string, language?: string): Promise<Post[]> {
+    const conditions: SQL[] = [];
+    if (channelPairId) conditions.push(eq(posts.channelPairId, channelPairId));
+    if (language) conditions.push(eq(posts.originalLanguage, language));
+
+    return await db.select().from(posts).where(and(...conditions));
   }
 
   async getPost(id: string): Promise<Post | undefined> {
@@ -268,6 +347,14 @@ export class DatabaseStorage implements IStorage {
     return maxId ? parseInt(maxId) : 0;
   }
 
+  async updateWebCursor(channelPairId: string, messageId: number): Promise<void> {
+    // Never move the cursor back, e.g. when a backfill processes older messages
+    await db
+      .update(channelPairs)
+      .set({ lastWebMessageId: sql`GREATEST(COALESCE(${channelPairs.lastWebMessageId}, 0), ${messageId})` })
+      .where(eq(channelPairs.id, channelPairId));
+  }
+
   async getActivityLogs(limit?: number): Promise<ActivityLog[]> {
     const logs = await db.select().from(activityLogs).orderBy(desc(activityLogs.createdAt)).limit(limit || 50);
     return logs;
@@ -300,7 +387,8 @@ export class DatabaseStorage implements IStorage {
         .set({
           ...insertSettings,
           botToken: insertSettings.botToken || null,
-          globalFilters: insertSettings.globalFilters || {},
+          // Filters are edited on their own page; keep them unless explicitly sent
+          globalFilters: insertSettings.globalFilters || existingSettings.globalFilters || { rules: [] },
           defaultBranding: insertSettings.defaultBranding || null,
           notificationSettings: insertSettings.notificationSettings || {},
           updatedAt: new Date(),
@@ -314,7 +402,7 @@ export class DatabaseStorage implements IStorage {
         .values({
           ...insertSettings,
           botToken: insertSettings.botToken || null,
-          globalFilters: insertSettings.globalFilters || {},
+          globalFilters: insertSettings.globalFilters || { rules: [] },
           defaultBranding: insertSettings.defaultBranding || null,
           notificationSettings: insertSettings.notificationSettings || {},
         })
@@ -323,6 +411,45 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateGlobalFilters(globalFilters: ContentFilters): Promise<Settings> {
+    const existingSettings = await this.getSettings();
+
+    // Unlike updateSettings, leaves the other settings columns untouched
+    if (existingSettings) {
+      const [updated] = await db
+        .update(settings)
+        .set({ globalFilters, updatedAt: new Date() })
+        .where(eq(settings.id, existingSettings.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(settings)
+      .values({ globalFilters })
+      .returning();
+    return created;
+  }
+
+  async updateDefaultBranding(header: string | null, footer: string | null): Promise<Settings> {
+    const existingSettings = await this.getSettings();
+    const branding = { defaultBrandingHeader: header, defaultBranding: footer };
+
+    if (existingSettings) {
+      const [updated] = await db
+        .update(settings)
+        .set({ ...branding, updatedAt: new Date() })
+        .where(eq(settings.id, existingSettings.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(settings)
+      .values(branding)
+      .returning();
+    return created;
+  }
 
   // Scheduled Posts Implementation
   async getScheduledPosts(channelPairId?: string): Promise<ScheduledPost[]> {
@@ -343,7 +470,7 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateScheduledPost(id: string, post: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined> {
+  async updateScheduledPost(id: string, post: ScheduledPostUpdate): Promise<ScheduledPost | undefined> {
     const [updated] = await db
       .update(scheduledPosts)
       .set({ ...post, updatedAt: new Date() })
@@ -370,22 +497,37 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(scheduledPosts.status, 'scheduled'),
-          lte(scheduledPosts.publishAt, now)
+          lte(scheduledPosts.publishAt, now),
+          or(isNull(scheduledPosts.nextAttemptAt), lte(scheduledPosts.nextAttemptAt, now))
         )
       )
       .orderBy(scheduledPosts.publishAt);
   }
 
+  // Hands posts left in 'sending' by a crash or restart back to the scheduler
+  async releaseSendingPosts(): Promise<number> {
+    const releasedPosts = await db
+      .update(posts)
+      .set({ status: 'pending' })
+      .where(eq(posts.status, 'sending'));
+    const releasedScheduled = await db
+      .update(scheduledPosts)
+      .set({ status: 'scheduled', updatedAt: new Date() })
+      .where(eq(scheduledPosts.status, 'sending'));
+    return (releasedPosts.rowCount ?? 0) + (releasedScheduled.rowCount ?? 0);
+  }
+
   // Draft Posts
-  async getDraftPosts(channelPairId?: string): Promise<DraftPost[]> {
-    if (channelPairId) {
-      return await db
-        .select()
-        .from(draftPosts)
-        .where(eq(draftPosts.channelPairId, channelPairId))
-        .orderBy(desc(draftPosts.createdAt));
-    }
-    return await db.select().from(draftPosts).orderBy(desc(draftPosts.createdAt));
+  async getDraftPosts(channelPairId?: string, language?: string): Promise<DraftPost[]> {
+    const conditions: SQL[] = [];
+    if (channelPairId) conditions.push(eq(draftPosts.channelPairId, channelPairId));
+    if (language) conditions.push(eq(draftPosts.originalLanguage, language));
+
+    return await db
+      .select()
+      .from(draftPosts)
+      .where(and(...conditions))
+      .orderBy(desc(draftPosts.createdAt));
   }
 
   async getDraftPost(id: string): Promise<DraftPost | undefined> {
@@ -480,6 +622,67 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Bot methods
+  async getBots(): Promise<Bot[]> {
+    return await db.select().from(bots).orderBy(bots.createdAt);
+  }
+
+  async getBot(id: string): Promise<Bot | undefined> {
+    const [bot] = await db.select().from(bots).where(eq(bots.id, id));
+    return bot;
+  }
+
+  async createBot(insertBot: InsertBot): Promise<Bot> {
+    const [bot] = await db.insert(bots).values(insertBot).returning();
+    return bot;
+  }
+
+  async updateBot(id: string, updates: Partial<Omit<Bot, "id" | "createdAt">>): Promise<Bot | undefined> {
+    const [bot] = await db
+      .update(bots)
+      .set(updates)
+      .where(eq(bots.id, id))
+      .returning();
+    return bot || undefined;
+  }
+
+  async deleteBot(id: string): Promise<boolean> {
+    const result = await db.delete(bots).where(eq(bots.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Glossary methods
+  async getGlossaries(): Promise<Glossary[]> {
+    return await db.select().from(glossaries).orderBy(glossaries.name);
+  }
+
+  async getGlossary(id: string): Promise<Glossary | undefined> {
+    const [glossary] = await db.select().from(glossaries).where(eq(glossaries.id, id));
+    return glossary;
+  }
+
+  async createGlossary(insertGlossary: InsertGlossary): Promise<Glossary> {
+    const [glossary] = await db.insert(glossaries).values(insertGlossary).returning();
+    return glossary;
+  }
+
+  async updateGlossary(id: string, updates: Partial<InsertGlossary>): Promise<Glossary | undefined> {
+    const [glossary] = await db
+      .update(glossaries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(glossaries.id, id))
+      .returning();
+    return glossary || undefined;
+  }
+
+  // Pairs and web sources using the glossary keep translating without it
+  async deleteGlossary(id: string): Promise<boolean> {
+    await db.update(channelPairs).set({ glossaryId: null }).where(eq(channelPairs.glossaryId, id));
+    await db.update(webSources).set({ glossaryId: null }).where(eq(webSources.glossaryId, id));
+    const result = await db.delete(glossaries).where(eq(glossaries.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Activation Token methods
   async createActivationToken(insertToken: InsertActivationToken): Promise<ActivationToken> {
     const [token] = await db
@@ -541,63 +744,352 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getStats(): Promise<{
-    activeChannels: number;
-    postsToday: number;
-    successRate: number;
-    errors: number;
-  }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async getStats(window: StatsWindow = 'today', timeZone: string = DEFAULT_TIME_ZONE): Promise<DashboardStats> {
+    const now = new Date();
+    const days = statsWindowDays[window];
+    const today = startOfDayInZone(now, timeZone);
+    const windowStart = startOfDayInZone(now, timeZone, days - 1);
+    const previousWindowStart = startOfDayInZone(now, timeZone, 2 * days - 1);
 
     try {
-      // Count active channels
       const [activeChannelsResult] = await db
-        .select({ count: sql<number>`count(*)` })
+        .select({ count: sql<number>`count(*)::int` })
         .from(channelPairs)
         .where(eq(channelPairs.status, 'active'));
-      const activeChannels = activeChannelsResult?.count ?? 0;
 
-      // Count posts created today
-      const [postsToday] = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(posts)
-        .where(sql`DATE(${posts.createdAt}) = DATE(${today})`);
-      const postsCount = postsToday?.count ?? 0;
-
-      // Calculate success rate (posted vs failed)
-      const [successfulPosts] = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(posts)
-        .where(eq(posts.status, 'posted'));
-      
-      const [failedPosts] = await db
-        .select({ count: sql<number>`count(*)` })
+      // Per pair counts over the window; today is always inside it. Messages the content
+      // filter skipped or sent to drafts are not posts the pair published or attempted
+      const rows = await db
+        .select({
+          channelPairId: posts.channelPairId,
+          postsToday: sql<number>`count(*) filter (where ${gte(posts.createdAt, today)})::int`,
+          posts: sql<number>`count(*)::int`,
+          posted: sql<number>`count(*) filter (where ${posts.status} = 'posted')::int`,
+          failed: sql<number>`count(*) filter (where ${posts.status} = 'failed')::int`,
+        })
         .from(posts)
-        .where(eq(posts.status, 'failed'));
-
-      const successful = successfulPosts?.count ?? 0;
-      const failed = failedPosts?.count ?? 0;
-      const total = successful + failed;
-      const successRate = total > 0 ? (successful / total) * 100 : 100;
+        .where(and(gte(posts.createdAt, windowStart), ne(posts.status, 'filtered')))
+        .groupBy(posts.channelPairId);
+
+      const [sameDayLastWeek, previousPosted, previousFailed] = await Promise.all([
+        this.countPosts(startOfDayInZone(now, timeZone, 7), startOfDayInZone(now, timeZone, 6)),
+        this.countPosts(previousWindowStart, windowStart, 'posted'),
+        this.countPosts(previousWindowStart, windowStart, 'failed'),
+      ]);
+
+      const sum = (key: 'postsToday' | 'posted' | 'failed') => rows.reduce((total, row) => total + row[key], 0);
+      const postsToday = sum('postsToday');
+      const posted = sum('posted');
+      const failed = sum('failed');
+
+      const currentRate = successRateOf(posted, failed);
+      const previousRate = successRateOf(previousPosted, previousFailed);
+
+      const pairs = (await this.getChannelPairs()).map(pair => {
+        const row = rows.find(row => row.channelPairId === pair.id);
+        const pairRate = row ? successRateOf(row.posted, row.failed) : null;
+        return {
+          channelPairId: pair.id,
+          sourceName: pair.sourceName,
+          targetName: pair.targetName,
+          status: pair.status,
+          postsToday: row?.postsToday ?? 0,
+          posts: row?.posts ?? 0,
+          posted: row?.posted ?? 0,
+          failed: row?.failed ?? 0,
+          successRate: pairRate === null ? null : Math.round(pairRate * 10) / 10,
+        };
+      });
 
       return {
-        activeChannels,
-        postsToday: postsCount,
-        successRate: Math.round(successRate),
+        window,
+        timeZone,
+        activeChannels: activeChannelsResult?.count ?? 0,
+        postsToday,
+        successRate: Math.round(currentRate ?? 100),
         errors: failed,
+        trends: {
+          postsToday: postsToday - sameDayLastWeek,
+          successRate: currentRate !== null && previousRate !== null
+            ? Math.round((currentRate - previousRate) * 10) / 10
+            : null,
+          errors: failed - previousFailed,
+        },
+        pairs,
       };
     } catch (error) {
       console.error('Error getting stats:', error);
       return {
+        window,
+        timeZone,
         activeChannels: 0,
         postsToday: 0,
         successRate: 0,
         errors: 0,
+        trends: { postsToday: 0, successRate: null, errors: 0 },
+        pairs: [],
       };
     }
   }
 
+  private async countPosts(from: Date, to: Date, status?: string): Promise<number> {
+    const conditions = [gte(posts.createdAt, from), lt(posts.createdAt, to), ne(posts.status, 'filtered')];
+    if (status) conditions.push(eq(posts.status, status));
+
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(posts)
+      .where(and(...conditions));
+    return result?.count ?? 0;
+  }
+
+  async upsertSubscriberSnapshot(snapshot: InsertSubscriberSnapshot): Promise<SubscriberSnapshot> {
+    const [saved] = await db
+      .insert(subscriberSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [subscriberSnapshots.channelUsername, subscriberSnapshots.day],
+        set: { subscribers: snapshot.subscribers, method: snapshot.method, capturedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSubscriberSnapshots(sinceDay: string, channelUsernames?: string[]): Promise<SubscriberSnapshot[]> {
+    if (channelUsernames?.length === 0) return [];
+
+    const conditions = [gte(subscriberSnapshots.day, sinceDay)];
+    if (channelUsernames) conditions.push(inArray(subscriberSnapshots.channelUsername, channelUsernames));
+
+    return await db
+      .select()
+      .from(subscriberSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(subscriberSnapshots.day));
+  }
+
+  /**
+   * Conditions for an analytics filter. Its days are calendar days in `timeZone`, and `to`
+   * is inclusive, so it covers that whole day.
+   */
+  private analyticsConditions(filter: AnalyticsFilter, createdAt: PgColumn, channelPairId: PgColumn, timeZone: string): SQL[] {
+    const conditions: SQL[] = [];
+    if (filter.from) conditions.push(gte(createdAt, startOfCalendarDayInZone(filter.from, timeZone)));
+    if (filter.to) conditions.push(lt(createdAt, startOfCalendarDayInZone(filter.to, timeZone, -1)));
+    if (filter.channelPairId) conditions.push(eq(channelPairId, filter.channelPairId));
+    return conditions;
+  }
+
+  /**
+   * Formats a UTC timestamp column as local time in `timeZone`, for bucketing by day or month.
+   * The zone is inlined rather than bound, so the same expression can appear in GROUP BY;
+   * it comes from settings, where it is validated as an IANA name.
+   */
+  private localPeriod(createdAt: PgColumn, timeZone: string, format: 'YYYY-MM-DD' | 'YYYY-MM'): SQL<string> {
+    const zone = sql.raw(`'${timeZone.replace(/'/g, "''")}'`);
+    return sql<string>`to_char((${createdAt} at time zone 'UTC') at time zone ${zone}, ${sql.raw(`'${format}'`)})`;
+  }
+
+  async getPostsPerDay(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE): Promise<PostsPerDay[]> {
+    const day = this.localPeriod(posts.createdAt, timeZone, 'YYYY-MM-DD');
+
+    return await db
+      .select({
+        day,
+        channelPairId: posts.channelPairId,
+        total: sql<number>`count(*)::int`,
+        posted: sql<number>`count(*) filter (where ${posts.status} = 'posted')::int`,
+        failed: sql<number>`count(*) filter (where ${posts.status} = 'failed')::int`,
+      })
+      .from(posts)
+      // Filtered messages have their own counter in getPostOutcomes
+      .where(and(ne(posts.status, 'filtered'), ...this.analyticsConditions(filter, posts.createdAt, posts.channelPairId, timeZone)))
+      .groupBy(day, posts.channelPairId)
+      .orderBy(asc(day));
+  }
+
+  async getPostOutcomes(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE): Promise<PostOutcomes> {
+    const [result] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        posted: sql<number>`count(*) filter (where ${posts.status} = 'posted')::int`,
+        failed: sql<number>`count(*) filter (where ${posts.status} = 'failed')::int`,
+        filtered: sql<number>`count(*) filter (where ${posts.status} = 'filtered')::int`,
+        pending: sql<number>`count(*) filter (where ${posts.status} in ('pending', 'sending'))::int`,
+        medianLatencySeconds: sql<number | null>`percentile_cont(0.5) within group (order by extract(epoch from ${posts.postedAt} - ${posts.createdAt})) filter (where ${posts.status} = 'posted' and ${posts.postedAt} is not null)`,
+      })
+      .from(posts)
+      .where(and(...this.analyticsConditions(filter, posts.createdAt, posts.channelPairId, timeZone)));
+
+    const posted = result?.posted ?? 0;
+    const failed = result?.failed ?? 0;
+    const finished = posted + failed;
+    const median = result?.medianLatencySeconds;
+
+    return {
+      total: result?.total ?? 0,
+      posted,
+      failed,
+      filtered: result?.filtered ?? 0,
+      pending: result?.pending ?? 0,
+      successRate: finished > 0 ? Math.round((posted / finished) * 1000) / 10 : null,
+      failureRate: finished > 0 ? Math.round((failed / finished) * 1000) / 10 : null,
+      medianLatencySeconds: median === null || median === undefined ? null : Math.round(Number(median)),
+    };
+  }
+
+  async getDraftFunnel(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE): Promise<DraftFunnel> {
+    const [result] = await db
+      .select({
+        created: sql<number>`count(*)::int`,
+        published: sql<number>`count(*) filter (where ${draftPosts.status} = 'published')::int`,
+        discarded: sql<number>`count(*) filter (where ${draftPosts.status} = 'discarded')::int`,
+        pending: sql<number>`count(*) filter (where ${draftPosts.status} = 'draft')::int`,
+      })
+      .from(draftPosts)
+      .where(and(...this.analyticsConditions(filter, draftPosts.createdAt, draftPosts.channelPairId, timeZone)));
+
+    return {
+      created: result?.created ?? 0,
+      published: result?.published ?? 0,
+      discarded: result?.discarded ?? 0,
+      pending: result?.pending ?? 0,
+    };
+  }
+
+  // Counted from the activity log, which records every translation attempt of the ingestion pipeline
+  async getTranslationCounts(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE): Promise<TranslationCounts> {
+    const conditions = this.analyticsConditions(filter, activityLogs.createdAt, activityLogs.channelPairId, timeZone);
+    const language = sql<string>`coalesce(${activityLogs.metadata}->>'originalLanguage', 'unknown')`;
+
+    const [totals, byLanguage] = await Promise.all([
+      db
+        .select({
+          translated: sql<number>`count(*) filter (where ${activityLogs.type} = 'content_translated')::int`,
+          failed: sql<number>`count(*) filter (where ${activityLogs.type} = 'translation_failed')::int`,
+        })
+        .from(activityLogs)
+        .where(and(inArray(activityLogs.type, ['content_translated', 'translation_failed']), ...conditions)),
+      db
+        .select({ language, count: sql<number>`count(*)::int` })
+        .from(activityLogs)
+        .where(and(eq(activityLogs.type, 'content_translated'), ...conditions))
+        .groupBy(language)
+        .orderBy(desc(sql`count(*)`)),
+    ]);
+
+    return {
+      translated: totals[0]?.translated ?? 0,
+      failed: totals[0]?.failed ?? 0,
+      byLanguage,
+    };
+  }
+
+  async getTopFailureReasons(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE, limit: number = 10): Promise<FailureReason[]> {
+    // Numbers are masked so e.g. "retry after 35" and "retry after 12" count as one reason
+    const reason = sql<string>`left(regexp_replace(coalesce(${posts.errorMessage}, ${posts.lastError}, 'Unknown error'), '[0-9]+', 'N', 'g'), 200)`;
+
+    const rows = await db
+      .select({
+        reason,
+        count: sql<number>`count(*)::int`,
+        lastSeenAt: sql<Date>`max(${posts.createdAt})`,
+      })
+      .from(posts)
+      .where(and(eq(posts.status, 'failed'), ...this.analyticsConditions(filter, posts.createdAt, posts.channelPairId, timeZone)))
+      .groupBy(reason)
+      .orderBy(desc(sql`count(*)`))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row, lastSeenAt: new Date(row.lastSeenAt).toISOString() }));
+  }
+
+  // Posts that were filtered out are left out; they never got a detected language
+  async getSourceLanguages(filter: AnalyticsFilter, timeZone: string = DEFAULT_TIME_ZONE): Promise<SourceLanguageCount[]> {
+    const postLanguage = sql<string>`coalesce(${posts.originalLanguage}, 'unknown')`;
+    const draftLanguage = sql<string>`coalesce(${draftPosts.originalLanguage}, 'unknown')`;
+
+    const [postRows, draftRows] = await Promise.all([
+      db
+        .select({ language: postLanguage, count: sql<number>`count(*)::int` })
+        .from(posts)
+        .where(and(ne(posts.status, 'filtered'), ...this.analyticsConditions(filter, posts.createdAt, posts.channelPairId, timeZone)))
+        .groupBy(postLanguage),
+      db
+        .select({ language: draftLanguage, count: sql<number>`count(*)::int` })
+        .from(draftPosts)
+        .where(and(...this.analyticsConditions(filter, draftPosts.createdAt, draftPosts.channelPairId, timeZone)))
+        .groupBy(draftLanguage),
+    ]);
+
+    const byLanguage = new Map<string, SourceLanguageCount>();
+    const entry = (language: string) => {
+      if (!byLanguage.has(language)) byLanguage.set(language, { language, posts: 0, drafts: 0 });
+      return byLanguage.get(language)!;
+    };
+    postRows.forEach(row => { entry(row.language).posts = row.count; });
+    draftRows.forEach(row => { entry(row.language).drafts = row.count; });
+
+    return Array.from(byLanguage.values()).sort((a, b) => (b.posts + b.drafts) - (a.posts + a.drafts));
+  }
+
+  async getCachedTranslation(contentHash: string, targetLanguage: string): Promise<TranslationCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(translationCache)
+      .where(and(eq(translationCache.contentHash, contentHash), eq(translationCache.targetLanguage, targetLanguage)));
+    return entry || undefined;
+  }
+
+  async saveCachedTranslation(entry: InsertTranslationCacheEntry): Promise<void> {
+    await db
+      .insert(translationCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [translationCache.contentHash, translationCache.targetLanguage],
+        set: { ...entry, lastUsedAt: new Date() },
+      });
+  }
+
+  async touchCachedTranslation(id: string): Promise<void> {
+    await db
+      .update(translationCache)
+      .set({ hitCount: sql`${translationCache.hitCount} + 1`, lastUsedAt: new Date() })
+      .where(eq(translationCache.id, id));
+  }
+
+  async recordTranslationUsage(usage: InsertTranslationUsage): Promise<void> {
+    await db.insert(translationUsage).values(usage);
+  }
+
+  async getTranslationCost(from: Date, to?: Date): Promise<number> {
+    const conditions = [gte(translationUsage.createdAt, from)];
+    if (to) conditions.push(lt(translationUsage.createdAt, to));
+
+    const [result] = await db
+      .select({ costUsd: sql<number>`coalesce(sum(${translationUsage.costUsd}), 0)::float` })
+      .from(translationUsage)
+      .where(and(...conditions));
+    return result?.costUsd ?? 0;
+  }
+
+  async getTranslationSpend(filter: AnalyticsFilter, period: "day" | "month", timeZone: string = DEFAULT_TIME_ZONE): Promise<TranslationSpendPeriod[]> {
+    const bucket = this.localPeriod(translationUsage.createdAt, timeZone, period === "day" ? 'YYYY-MM-DD' : 'YYYY-MM');
+
+    return await db
+      .select({
+        period: bucket,
+        costUsd: sql<number>`coalesce(sum(${translationUsage.costUsd}), 0)::float`,
+        promptTokens: sql<number>`coalesce(sum(${translationUsage.promptTokens}), 0)::int`,
+        completionTokens: sql<number>`coalesce(sum(${translationUsage.completionTokens}), 0)::int`,
+        requests: sql<number>`count(*)::int`,
+      })
+      .from(translationUsage)
+      .where(and(...this.analyticsConditions(filter, translationUsage.createdAt, translationUsage.channelPairId, timeZone)))
+      .groupBy(bucket)
+      .orderBy(asc(bucket));
+  }
+
   // Rate Limiting Implementation
   async getRateLimitAttempt(ip: string, endpoint: string): Promise<RateLimitAttempt | undefined> {
     const [attempt] = await db
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+// Query parameters shared by the /api/analytics endpoints; dates are inclusive days
+export const analyticsFilterSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  channelPairId: z.string().optional(),
+}).refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+  message: "Start date must be before end date",
+  path: ["to"],
+});
+
+export type AnalyticsFilter = z.infer<typeof analyticsFilterSchema>;
+
+export interface PostsPerDay {
+  day: string; // YYYY-MM-DD
+  channelPairId: string | null;
+  total: number;
+  posted: number;
+  failed: number;
+}
+
+export interface PostOutcomes {
+  total: number;
+  posted: number;
+  failed: number;
+  filtered: number;
+  pending: number; // pending or sending
+  successRate: number | null; // posted / (posted + failed), in percent; null without finished posts
+  failureRate: number | null;
+  medianLatencySeconds: number | null; // Median of created → posted for posted posts
+}
+
+export interface DraftFunnel {
+  created: number;
+  published: number;
+  discarded: number;
+  pending: number; // Still in the draft state
+}
+
+export interface TranslationCounts {
+  translated: number;
+  failed: number;
+  byLanguage: Array<{ language: string; count: number }>;
+}
+
+export interface FailureReason {
+  reason: string;
+  count: number;
+  lastSeenAt: string; // ISO date
+}
+
+// Incoming posts and drafts by the language of their source text
+export interface SourceLanguageCount {
+  language: string; // ISO 639-1 code or "unknown"
+  posts: number;
+  drafts: number;
+}
+
+export interface TranslationSpendPeriod {
+  period: string; // YYYY-MM-DD for days, YYYY-MM for months
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+export interface TranslationSpend {
+  todayUsd: number;
+  monthUsd: number; // Month to date, in the workspace time zone
+  budgetUsd: number | null;
+  budgetExceeded: boolean;
+  daily: TranslationSpendPeriod[];
+  monthly: TranslationSpendPeriod[];
+}
@@ -0,0 +1,16 @@
+// Placeholders available in branding headers and footers, written as {name}
+export const brandingPlaceholders = [
+  "source_name",
+  "source_link",
+  "original_url",
+  "date",
+  "target_name",
+  "hashtags",
+] as const;
+
+export type BrandingPlaceholder = typeof brandingPlaceholders[number];
+
+export interface BrandingTemplate {
+  header: string;
+  footer: string;
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// What happens to a post when a rule matches. "rewrite" edits the text and lets it through.
+export const filterActions = ["skip", "draft", "rewrite"] as const;
+export type FilterAction = typeof filterActions[number];
+
+// Actions for rules that only describe a condition and have nothing to rewrite
+const gateActionSchema = z.enum(["skip", "draft"]);
+
+const ruleBase = {
+  id: z.string().optional(),
+  name: z.string().optional(),
+  enabled: z.boolean().default(true),
+};
+
+export const filterRuleSchema = z.discriminatedUnion("type", [
+  // Matches when the post contains none of the keywords
+  z.object({
+    ...ruleBase,
+    type: z.literal("include_keywords"),
+    keywords: z.array(z.string().min(1)).min(1),
+    action: gateActionSchema,
+  }),
+  // Matches when the post contains any of the keywords; rewrite replaces them
+  z.object({
+    ...ruleBase,
+    type: z.literal("exclude_keywords"),
+    keywords: z.array(z.string().min(1)).min(1),
+    action: z.enum(filterActions),
+    replacement: z.string().default(""),
+  }),
+  // Matches when the pattern is found; rewrite replaces every match ($1 etc. allowed)
+  z.object({
+    ...ruleBase,
+    type: z.literal("regex"),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[imsu]*$/).default("i"),
+    action: z.enum(filterActions),
+    replacement: z.string().default(""),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("min_length"),
+    length: z.number().int().min(1),
+    action: gateActionSchema,
+  }),
+  // Rewrite truncates the text to the limit
+  z.object({
+    ...ruleBase,
+    type: z.literal("max_length"),
+    length: z.number().int().min(1),
+    action: z.enum(filterActions),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("require_media"),
+    action: gateActionSchema,
+  }),
+  // Matches when the detected language is not in the list (ISO 639-1 codes)
+  z.object({
+    ...ruleBase,
+    type: z.literal("language"),
+    languages: z.array(z.string().min(2)).min(1),
+    action: gateActionSchema,
+  }),
+  // Matches when a required hashtag is missing or a blocked one is present;
+  // rewrite removes the blocked hashtags
+  z.object({
+    ...ruleBase,
+    type: z.literal("hashtags"),
+    required: z.array(z.string()).default([]),
+    blocked: z.array(z.string()).default([]),
+    action: z.enum(filterActions),
+  }),
+]).superRefine((rule, ctx) => {
+  if (rule.type === "regex") {
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid regular expression: ${rule.pattern}`, path: ["pattern"] });
+    }
+  }
+  if (rule.type === "hashtags" && rule.action === "rewrite" && rule.blocked.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Rewrite needs blocked hashtags to remove", path: ["blocked"] });
+  }
+});
+
+export type FilterRule = z.infer<typeof filterRuleSchema>;
+export type FilterRuleType = FilterRule["type"];
+
+// Shape of channelPairs.contentFilters and settings.globalFilters
+export const contentFiltersSchema = z.object({
+  // Applied when the post is sent, after the rules below
+  removeChannelMentions: z.boolean().optional(),
+  removeExternalLinks: z.boolean().optional(),
+  rules: z.array(filterRuleSchema).default([]),
+}).passthrough(); // Keeps other per-pair options stored alongside (e.g. addWatermark)
+
+export type ContentFilters = z.infer<typeof contentFiltersSchema>;
+
+/**
+ * Reads a stored filters value, dropping invalid rules instead of failing so one bad
+ * rule does not disable the others. Older rows contain only the two booleans.
+ */
+export function normalizeContentFilters(value: unknown): ContentFilters {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+
+  const rules: FilterRule[] = [];
+  if (Array.isArray(source.rules)) {
+    for (const rule of source.rules) {
+      const parsed = filterRuleSchema.safeParse(rule);
+      if (parsed.success) rules.push(parsed.data);
+    }
+  }
+
+  return {
+    removeChannelMentions: typeof source.removeChannelMentions === "boolean" ? source.removeChannelMentions : undefined,
+    removeExternalLinks: typeof source.removeExternalLinks === "boolean" ? source.removeExternalLinks : undefined,
+    rules,
+  };
+}
+
+// Outcome of running filter rules against one post
+export type FilterDecision = "send" | "draft" | "skip";
+
+export interface MatchedRule {
+  index: number; // Position of the rule within its scope's rule list
+  type: FilterRule["type"];
+  name?: string;
+  action: FilterRule["action"];
+  reason: string;
+  scope: "global" | "pair";
+}
+
+export interface FilterResult {
+  decision: FilterDecision;
+  content: string; // Text after rewrite rules
+  matched: MatchedRule[];
+}
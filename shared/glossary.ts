@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+// A source term and the translation it must always get
+export const glossaryEntrySchema = z.object({
+  source: z.string().trim().min(1),
+  target: z.string().trim().min(1),
+});
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+// Terms kept verbatim in every translation: brand names, tickers, product names
+export const doNotTranslateSchema = z.array(z.string().trim().min(1));
+
+export interface GlossaryTerms {
+  entries: GlossaryEntry[];
+  doNotTranslate: string[];
+}
+
+export interface GlossaryCsvImport extends GlossaryTerms {
+  errors: string[]; // One message per skipped line
+}
+
+const CSV_HEADER = /^(source|term|термин)$/i;
+
+/**
+ * Reads "source,target" lines. A line with only a source term (or with the target equal
+ * to it) adds a do-not-translate term. A header line is skipped; fields may be quoted,
+ * and semicolon-separated files as exported by Excel are accepted too.
+ */
+export function parseGlossaryCsv(csv: string): GlossaryCsvImport {
+  const lines = csv.replace(/^﻿/, "").split(/\r?\n/);
+  const delimiter = lines.some(line => line.includes(";")) && !lines.some(line => line.includes(",")) ? ";" : ",";
+  const result: GlossaryCsvImport = { entries: [], doNotTranslate: [], errors: [] };
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith("#")) return;
+
+    const fields = splitCsvLine(line, delimiter);
+    if (!fields) {
+      result.errors.push(`Line ${index + 1}: unterminated quote`);
+      return;
+    }
+
+    const [source = "", target = "", ...extra] = fields.map(field => field.trim());
+    if (index === 0 && CSV_HEADER.test(source)) return;
+    if (!source) {
+      result.errors.push(`Line ${index + 1}: missing source term`);
+      return;
+    }
+    if (extra.some(Boolean)) {
+      result.errors.push(`Line ${index + 1}: expected at most 2 columns`);
+      return;
+    }
+
+    if (!target || target === source) {
+      result.doNotTranslate.push(source);
+    } else {
+      result.entries.push({ source, target });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Adds terms to a glossary. A term already present (case-insensitively) is replaced,
+ * and moves between the entries and the do-not-translate list if needed.
+ */
+export function mergeGlossaryTerms(base: GlossaryTerms, added: GlossaryTerms): GlossaryTerms {
+  const key = (term: string) => term.toLowerCase();
+  const addedKeys = new Set([
+    ...added.entries.map(entry => key(entry.source)),
+    ...added.doNotTranslate.map(key),
+  ]);
+
+  const entries = new Map<string, GlossaryEntry>();
+  for (const entry of [...base.entries.filter(entry => !addedKeys.has(key(entry.source))), ...added.entries]) {
+    entries.set(key(entry.source), entry);
+  }
+  const doNotTranslate = new Map<string, string>();
+  for (const term of [...base.doNotTranslate.filter(term => !addedKeys.has(key(term))), ...added.doNotTranslate]) {
+    doNotTranslate.set(key(term), term);
+  }
+
+  return {
+    entries: Array.from(entries.values()),
+    doNotTranslate: Array.from(doNotTranslate.values()),
+  };
+}
+
+// Splits one CSV line; null when a quoted field is not closed
+function splitCsvLine(line: string, delimiter: string): string[] | null {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field.trim()) {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) return null;
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,13 @@
+// Outcome of one part of a channel pair health check
+export interface HealthCheckResult {
+  ok: boolean;
+  message?: string; // Failure reason, or a note such as where the result came from
+}
+
+// Stored on the channel pair by the periodic health checker
+export interface PairHealth {
+  checkedAt: string; // ISO date
+  source: HealthCheckResult; // Source channel is reachable (getChat or t.me web view)
+  target: HealthCheckResult; // Bot is an admin with post rights in the target
+  subscribers: HealthCheckResult; // Subscriber counts were refreshed; never moves the pair to error
+}
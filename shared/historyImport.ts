@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+// Either the last `count` posts, or every post published between `from` and `to`
+export const historyImportOptionsSchema = z.object({
+  count: z.number().int().min(1).max(1000).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(options => options.count !== undefined || options.from !== undefined, {
+  message: "Specify a post count or a start date",
+}).refine(options => !options.from || !options.to || options.from <= options.to, {
+  message: "Start date must be before end date",
+  path: ["to"],
+});
+
+export type HistoryImportOptions = z.infer<typeof historyImportOptionsSchema>;
+
+export type HistoryImportStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface HistoryImportJob {
+  id: string;
+  channelPairId: string;
+  sourceName: string;
+  options: HistoryImportOptions;
+  status: HistoryImportStatus;
+  scanned: number; // Source messages read from the web view
+  total?: number; // Messages selected for import, known once scanning is done
+  created: number; // Drafts created
+  skipped: number; // Already imported or rejected by filters
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+export const watermarkPositions = [
+  "top-left", "top", "top-right",
+  "left", "center", "right",
+  "bottom-left", "bottom", "bottom-right",
+] as const;
+export type WatermarkPosition = typeof watermarkPositions[number];
+
+// single: one watermark at `position`; tiled: repeated across the whole image
+export const watermarkLayouts = ["single", "tiled"] as const;
+export type WatermarkLayout = typeof watermarkLayouts[number];
+
+// Per-pair processing applied to every photo before it is sent to the target channel
+export const imagePipelineSchema = z.object({
+  enabled: z.boolean().default(false),
+  watermarkText: z.string().max(100).optional(),
+  watermarkLogo: z.string().regex(/^[\w-]+\.png$/).optional(), // File name of an uploaded logo, used instead of the text
+  position: z.enum(watermarkPositions).default("bottom-right"),
+  layout: z.enum(watermarkLayouts).default("single"),
+  logoScale: z.number().min(0.02).max(1).default(0.2), // Logo width relative to the image width
+  margin: z.number().int().min(0).max(500).default(20), // Distance from the edges (single) or between copies (tiled), px
+  opacity: z.number().min(0).max(1).default(0.8),
+  maxWidth: z.number().int().min(100).max(5000).default(2560),
+  maxHeight: z.number().int().min(100).max(5000).default(2560),
+  quality: z.number().int().min(10).max(100).default(85),
+  stripExif: z.boolean().default(true),
+  cropPercent: z.number().min(0).max(30).default(0), // Cut from the bottom edge, where source watermarks usually sit
+});
+
+export type ImagePipelineConfig = z.infer<typeof imagePipelineSchema>;
+
+export const defaultImagePipeline: ImagePipelineConfig = imagePipelineSchema.parse({});
@@ -0,0 +1,39 @@
+// Languages posts can be translated into, keyed by ISO 639-1 code
+export const languageCodes = ["ru", "en", "kk", "uk", "uz", "be", "de", "fr", "es", "it", "pt", "tr", "pl", "zh", "ar"] as const;
+export type LanguageCode = typeof languageCodes[number];
+
+export const DEFAULT_TARGET_LANGUAGE: LanguageCode = "ru";
+
+// English names go into translation prompts, Russian ones are shown in the UI
+export const languageNames: Record<LanguageCode, { english: string; label: string }> = {
+  ru: { english: "Russian", label: "Русский" },
+  en: { english: "English", label: "Английский" },
+  kk: { english: "Kazakh", label: "Казахский" },
+  uk: { english: "Ukrainian", label: "Украинский" },
+  uz: { english: "Uzbek", label: "Узбекский" },
+  be: { english: "Belarusian", label: "Белорусский" },
+  de: { english: "German", label: "Немецкий" },
+  fr: { english: "French", label: "Французский" },
+  es: { english: "Spanish", label: "Испанский" },
+  it: { english: "Italian", label: "Итальянский" },
+  pt: { english: "Portuguese", label: "Португальский" },
+  tr: { english: "Turkish", label: "Турецкий" },
+  pl: { english: "Polish", label: "Польский" },
+  zh: { english: "Chinese", label: "Китайский" },
+  ar: { english: "Arabic", label: "Арабский" },
+};
+
+export function isLanguageCode(value: string): value is LanguageCode {
+  return (languageCodes as readonly string[]).includes(value);
+}
+
+// UI label of a stored language; older rows hold English names such as "english"
+export function languageLabel(language: string | null | undefined): string {
+  if (!language) return "—";
+  return isLanguageCode(language) ? languageNames[language].label : language;
+}
+
+// Stored target language as a code the translator accepts; unknown values fall back to the default
+export function resolveTargetLanguage(language: string | null | undefined): LanguageCode {
+  return language && isLanguageCode(language) ? language : DEFAULT_TARGET_LANGUAGE;
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+// Media kinds that map 1:1 to Bot API send methods (sendPhoto, sendVideo, ...)
+export const mediaTypes = ["photo", "video", "animation", "document", "audio", "voice"] as const;
+export type MediaType = typeof mediaTypes[number];
+
+export const mediaItemSchema = z.object({
+  type: z.enum(mediaTypes),
+  url: z.string().optional(), // Downloadable URL (t.me web view, RSS, HTML pages)
+  fileId: z.string().optional(), // Telegram file_id, reused without downloading
+}).refine(item => !!item.url || !!item.fileId, {
+  message: "Media item needs either a url or a fileId",
+});
+
+export type MediaItem = z.infer<typeof mediaItemSchema>;
+
+/**
+ * Converts a legacy media entry (plain URL or file_id string) into a typed media item.
+ * Older rows stored only strings, which were always treated as photos.
+ */
+export function toMediaItem(entry: string): MediaItem {
+  return /^https?:\/\//i.test(entry)
+    ? { type: "photo", url: entry }
+    : { type: "photo", fileId: entry };
+}
+
+/**
+ * Normalizes a stored mediaUrls value into typed media items, accepting both the
+ * current object format and legacy string entries.
+ */
+export function normalizeMediaItems(value: unknown): MediaItem[] {
+  if (!Array.isArray(value)) return [];
+
+  const items: MediaItem[] = [];
+  for (const entry of value) {
+    if (typeof entry === "string") {
+      if (entry) items.push(toMediaItem(entry));
+      continue;
+    }
+
+    const parsed = mediaItemSchema.safeParse(entry);
+    if (parsed.success) {
+      items.push(parsed.data);
+    }
+  }
+  return items;
+}
+
+// Accepts both typed items and legacy strings on input, always yields typed items
+export const mediaItemsSchema = z.array(
+  z.union([mediaItemSchema, z.string().min(1).transform(toMediaItem)])
+);
@@ -1,7 +1,46 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { mediaItemsSchema, type MediaItem } from "./media";
+import { contentFiltersSchema, type ContentFilters } from "./filters";
+import { imagePipelineSchema, type ImagePipelineConfig } from "./imagePipeline";
+import type { PairHealth } from "./health";
+import { isValidTimeZone, type StatsWindow } from "./timezone";
+import { languageCodes } from "./languages";
+import { doNotTranslateSchema, glossaryEntrySchema, type GlossaryEntry } from "./glossary";
+
+// A message the bot sent to a target channel. A single post can produce several messages
+// (album items, caption overflow), and the role tells edits which one holds which text.
+export const publishedMessageSchema = z.object({
+  chatId: z.union([z.string(), z.number()]),
+  messageId: z.number(),
+  role: z.enum(["caption", "media", "text"]), // caption: media carrying the caption, text: text message
+});
+
+export type PublishedMessage = z.infer<typeof publishedMessageSchema>;
+
+// Additional bots; pairs without a botId use the main bot from settings.botToken
+export const bots = pgTable("bots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name"), // Optional label shown instead of the username
+  token: text("token").notNull().unique(),
+  username: text("username"), // From getMe
+  status: text("status").notNull().default("unknown"), // unknown, ok, error
+  lastError: text("last_error"),
+  lastCheckedAt: timestamp("last_checked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Terms enforced when translating for the channel pairs and web sources it is attached to
+export const glossaries = pgTable("glossaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  entries: jsonb("entries").$type<GlossaryEntry[]>().notNull().default([]), // Source term → forced translation
+  doNotTranslate: jsonb("do_not_translate").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
 
 export const channelPairs = pgTable("channel_pairs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -12,11 +51,20 @@ export const channelPairs = pgTable("channel_pairs", {
   targetUsername: text("target_username").notNull(),
   targetSubscribers: integer("target_subscribers").default(0),
   status: text("status").notNull().default("active"), // active, paused, error
+  statusReason: text("status_reason"), // Why the health checker set status to error
+  health: jsonb("health").$type<PairHealth>(), // Last health check result
   postingDelay: integer("posting_delay").default(0), // in minutes
-  contentFilters: jsonb("content_filters").default({}),
-  customBranding: text("custom_branding"),
-  autoTranslate: boolean("auto_translate").default(false), // enable/disable auto translation to Russian
+  contentFilters: jsonb("content_filters").$type<ContentFilters>().default({ rules: [] }),
+  brandingHeader: text("branding_header"), // Template placed above the post text
+  customBranding: text("custom_branding"), // Template placed below the post text (footer)
+  imagePipeline: jsonb("image_pipeline").$type<ImagePipelineConfig>(), // Watermark, resize, crop and EXIF settings for photos
+  autoTranslate: boolean("auto_translate").default(false), // enable/disable auto translation to targetLanguage
+  targetLanguage: text("target_language").notNull().default("ru"), // ISO 639-1 code posts are translated into
+  glossaryId: varchar("glossary_id").references(() => glossaries.id), // Terms enforced by translation
   copyMode: text("copy_mode").notNull().default("auto_publish"), // auto_publish, draft_mode
+  syncEdits: boolean("sync_edits").default(false), // mirror edits of source posts to the reposted copy
+  lastWebMessageId: integer("last_web_message_id"), // t.me web parser cursor: highest source message ID handled
+  botId: varchar("bot_id").references(() => bots.id), // Bot that posts to the target; null for the main bot
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -26,15 +74,64 @@ export const posts = pgTable("posts", {
   channelPairId: varchar("channel_pair_id").references(() => channelPairs.id),
   originalPostId: text("original_post_id").notNull(),
   repostedPostId: text("reposted_post_id"),
+  repostedMessages: jsonb("reposted_messages").$type<PublishedMessage[]>().default([]),
   content: text("content"),
-  mediaUrls: jsonb("media_urls").default([]),
-  status: text("status").notNull().default("pending"), // pending, posted, failed
+  mediaUrls: jsonb("media_urls").$type<MediaItem[]>().default([]),
+  originalLanguage: text("original_language"), // ISO 639-1 code of the source text
+  status: text("status").notNull().default("pending"), // pending, sending, posted, failed, deleted, filtered
   errorMessage: text("error_message"),
+  attemptCount: integer("attempt_count").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Set while a failed send waits for its retry
+  lastError: text("last_error"),
   scheduledAt: timestamp("scheduled_at"),
   postedAt: timestamp("posted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Daily subscriber counts per channel (sources and targets), one row per channel and UTC day
+export const subscriberSnapshots = pgTable("subscriber_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channelUsername: text("channel_username").notNull(), // Lowercase, without @
+  day: text("day").notNull(), // YYYY-MM-DD
+  subscribers: integer("subscribers").notNull(),
+  method: text("method").notNull(), // bot (getChatMemberCount), web (t.me counter, rounded)
+  capturedAt: timestamp("captured_at").defaultNow(),
+}, (table) => [
+  unique("subscriber_snapshots_channel_day").on(table.channelUsername, table.day),
+]);
+
+// Translations by content hash and target language, so identical text is translated once.
+// Also remembers text that was already in the target language.
+export const translationCache = pgTable("translation_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contentHash: text("content_hash").notNull(), // sha256 of the source text
+  targetLanguage: text("target_language").notNull(),
+  detectedLanguage: text("detected_language").notNull(),
+  translatedText: text("translated_text").notNull(), // Equals the source text when wasTranslated is false
+  wasTranslated: boolean("was_translated").notNull(),
+  provider: text("provider").notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+}, (table) => [
+  unique("translation_cache_hash_language").on(table.contentHash, table.targetLanguage),
+]);
+
+// One row per billed LLM request made for translation
+export const translationUsage = pgTable("translation_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  operation: text("operation").notNull(), // detect, translate
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  source: text("source"), // bot, webhook, web, web_source, edit_sync, test
+  channelPairId: varchar("channel_pair_id").references(() => channelPairs.id),
+  webSourceId: varchar("web_source_id").references(() => webSources.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const activityLogs = pgTable("activity_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type").notNull(), // post_created, post_failed, filter_applied, etc.
@@ -45,12 +142,29 @@ export const activityLogs = pgTable("activity_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// How the bot receives updates; switched at runtime from the Settings page
+export const botModes = ["polling", "webhook"] as const;
+export type BotMode = typeof botModes[number];
+
+// Backend that detects languages and translates posts; "none" turns translation off
+export const translationProviders = ["none", "openai", "deepl", "libretranslate"] as const;
+export type TranslationProviderName = typeof translationProviders[number];
+
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   botToken: text("bot_token"),
-  globalFilters: jsonb("global_filters").default({}),
+  globalFilters: jsonb("global_filters").$type<ContentFilters>().default({ rules: [] }), // merged into every pair's filters
+  defaultBrandingHeader: text("default_branding_header"), // Used by pairs without their own branding
   defaultBranding: text("default_branding"),
   notificationSettings: jsonb("notification_settings").default({}),
+  webParserMaxPages: integer("web_parser_max_pages").default(10), // Older t.me pages fetched per run to close a gap
+  botMode: text("bot_mode").default("polling"), // polling, webhook
+  webhookUrl: text("webhook_url"), // Public HTTPS base URL of this server, used in webhook mode
+  timezone: text("timezone").default("UTC"), // IANA name; dashboard days start at midnight here
+  translationProvider: text("translation_provider").default("openai"), // none, openai, deepl, libretranslate
+  translationApiKey: text("translation_api_key"), // DeepL or LibreTranslate key; OpenAI falls back to OPENAI_API_KEY
+  translationApiUrl: text("translation_api_url"), // Base URL of the LibreTranslate-compatible server
+  translationMonthlyBudgetUsd: doublePrecision("translation_monthly_budget_usd"), // Translation pauses once this month's spend reaches it; null for no limit
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -60,11 +174,15 @@ export const scheduledPosts = pgTable("scheduled_posts", {
   channelPairId: varchar("channel_pair_id").references(() => channelPairs.id).notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  mediaUrls: jsonb("media_urls").default([]),
+  mediaUrls: jsonb("media_urls").$type<MediaItem[]>().default([]),
   publishAt: timestamp("publish_at").notNull(),
-  status: text("status").notNull().default("scheduled"), // scheduled, published, failed, cancelled
+  status: text("status").notNull().default("scheduled"), // scheduled, sending, published, failed, cancelled, deleted
   errorMessage: text("error_message"),
+  attemptCount: integer("attempt_count").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastError: text("last_error"),
   publishedPostId: text("published_post_id"),
+  publishedMessages: jsonb("published_messages").$type<PublishedMessage[]>().default([]),
   publishedAt: timestamp("published_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -81,6 +199,8 @@ export const webSources = pgTable("web_sources", {
   isActive: boolean("is_active").default(true),
   parseInterval: integer("parse_interval").default(60), // minutes
   targetChannelId: varchar("target_channel_id"), // Optional target channel for auto-posting
+  targetLanguage: text("target_language").default("ru"), // ISO 639-1 code drafts are translated into; null keeps the original
+  glossaryId: varchar("glossary_id").references(() => glossaries.id), // Terms enforced by translation
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -92,10 +212,11 @@ export const draftPosts = pgTable("draft_posts", {
   originalPostId: text("original_post_id").notNull(),
   originalContent: text("original_content"), // Original content before translation/editing
   content: text("content"), // Current edited content
-  mediaUrls: jsonb("media_urls").default([]),
+  mediaUrls: jsonb("media_urls").$type<MediaItem[]>().default([]),
   status: text("status").notNull().default("draft"), // draft, published, discarded
   isTranslated: boolean("is_translated").default(false),
-  originalLanguage: text("original_language"),
+  originalLanguage: text("original_language"), // ISO 639-1 code of the source text
+  targetLanguage: text("target_language"), // Language the content was translated into
   publishedPostId: text("published_post_id"),
   publishedAt: timestamp("published_at"),
   sourceUrl: text("source_url"), // Original URL for web-sourced content
@@ -205,13 +326,57 @@ export const projectPosts = pgTable("project_posts", {
 });
 
 // Insert schemas
-export const insertChannelPairSchema = createInsertSchema(channelPairs).omit({
+export const insertBotSchema = createInsertSchema(bots, {
+  token: z.string().regex(/^\d+:[\w-]+$/, "Invalid bot token format"),
+}).pick({
+  name: true,
+  token: true,
+});
+
+export const insertGlossarySchema = createInsertSchema(glossaries, {
+  name: z.string().trim().min(1, "Name is required"),
+  entries: z.array(glossaryEntrySchema).optional(),
+  doNotTranslate: doNotTranslateSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChannelPairSchema = createInsertSchema(channelPairs, {
+  contentFilters: contentFiltersSchema.optional(),
+  imagePipeline: imagePipelineSchema.nullable().optional(),
+  targetLanguage: z.enum(languageCodes).optional(),
+}).omit({
   id: true,
+  lastWebMessageId: true,
+  statusReason: true,
+  health: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertPostSchema = createInsertSchema(posts).omit({
+export const insertSubscriberSnapshotSchema = createInsertSchema(subscriberSnapshots).omit({
+  id: true,
+  capturedAt: true,
+});
+
+export const insertTranslationCacheSchema = createInsertSchema(translationCache).omit({
+  id: true,
+  hitCount: true,
+  createdAt: true,
+  lastUsedAt: true,
+});
+
+export const insertTranslationUsageSchema = createInsertSchema(translationUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPostSchema = createInsertSchema(posts, {
+  mediaUrls: mediaItemsSchema.optional(),
+  repostedMessages: z.array(publishedMessageSchema).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -221,27 +386,46 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   createdAt: true,
 });
 
-export const insertSettingsSchema = createInsertSchema(settings).omit({
+export const insertSettingsSchema = createInsertSchema(settings, {
+  globalFilters: contentFiltersSchema.optional(),
+  webParserMaxPages: z.number().int().min(1).max(50).optional(),
+  botMode: z.enum(botModes).optional(),
+  webhookUrl: z.string().url().startsWith("https://", "Telegram only delivers webhooks over HTTPS").nullable().optional(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  translationProvider: z.enum(translationProviders).optional(),
+  translationApiUrl: z.string().url().nullable().optional(),
+  translationMonthlyBudgetUsd: z.number().positive().nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertScheduledPostSchema = createInsertSchema(scheduledPosts).omit({
+export const insertScheduledPostSchema = createInsertSchema(scheduledPosts, {
+  mediaUrls: mediaItemsSchema.optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   publishedAt: true,
+  publishedPostId: true,
+  publishedMessages: true,
+  attemptCount: true,
+  nextAttemptAt: true,
 });
 
-export const insertDraftPostSchema = createInsertSchema(draftPosts).omit({
+export const insertDraftPostSchema = createInsertSchema(draftPosts, {
+  mediaUrls: mediaItemsSchema.optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   publishedAt: true,
 });
 
-export const insertWebSourceSchema = createInsertSchema(webSources).omit({
+export const insertWebSourceSchema = createInsertSchema(webSources, {
+  targetLanguage: z.enum(languageCodes).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -293,6 +477,72 @@ export const insertProjectPostSchema = createInsertSchema(projectPosts).omit({
 });
 
 // Types
+export type { MediaItem, MediaType } from "./media";
+export type { ContentFilters, FilterRule, FilterAction } from "./filters";
+export type { ImagePipelineConfig, WatermarkPosition } from "./imagePipeline";
+export type { PairHealth, HealthCheckResult } from "./health";
+export type { StatsWindow } from "./timezone";
+export type { LanguageCode } from "./languages";
+export type { GlossaryEntry, GlossaryTerms } from "./glossary";
+
+export type SubscriberSnapshot = typeof subscriberSnapshots.$inferSelect;
+export type InsertSubscriberSnapshot = z.infer<typeof insertSubscriberSnapshotSchema>;
+
+export type TranslationCacheEntry = typeof translationCache.$inferSelect;
+export type InsertTranslationCacheEntry = z.infer<typeof insertTranslationCacheSchema>;
+
+export type TranslationUsage = typeof translationUsage.$inferSelect;
+export type InsertTranslationUsage = z.infer<typeof insertTranslationUsageSchema>;
+
+// Subscriber time series of one target channel, as returned by /api/analytics/subscribers
+export interface SubscriberGrowth {
+  channelUsername: string;
+  name: string;
+  points: Array<{ day: string; subscribers: number }>;
+}
+
+// Post counters of one channel pair over the stats window
+export interface PairStats {
+  channelPairId: string;
+  sourceName: string;
+  targetName: string;
+  status: string;
+  postsToday: number;
+  posts: number;
+  posted: number;
+  failed: number;
+  successRate: number | null; // null without posted or failed posts in the window
+}
+
+// Dashboard counters from storage.getStats; days are counted in the workspace time zone
+export interface DashboardStats {
+  window: StatsWindow;
+  timeZone: string;
+  activeChannels: number;
+  postsToday: number;
+  successRate: number; // Over the window
+  errors: number; // Failed posts in the window
+  // Changes shown under the counters
+  trends: {
+    postsToday: number; // Today vs the same weekday a week ago
+    successRate: number | null; // Window vs the window before, in percentage points; null without posts in either
+    errors: number; // Failed posts in the window minus the window before
+  };
+  pairs: PairStats[];
+}
+
+export type Bot = typeof bots.$inferSelect;
+export type InsertBot = z.infer<typeof insertBotSchema>;
+
+export type Glossary = typeof glossaries.$inferSelect;
+export type InsertGlossary = z.infer<typeof insertGlossarySchema>;
+
+// A bot as listed to the dashboard: never includes the token
+export type BotStatus = Omit<Bot, "token" | "id" | "createdAt"> & {
+  id: string | null; // null for the main bot from settings
+  isMain: boolean;
+};
+
 export type ChannelPair = typeof channelPairs.$inferSelect;
 export type InsertChannelPair = z.infer<typeof insertChannelPairSchema>;
 
@@ -307,6 +557,9 @@ export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 
 export type ScheduledPost = typeof scheduledPosts.$inferSelect;
 export type InsertScheduledPost = z.infer<typeof insertScheduledPostSchema>;
+// Updates may also touch the delivery fields only the server writes
+export type ScheduledPostUpdate = Partial<InsertScheduledPost> &
+  Partial<Pick<ScheduledPost, "publishedAt" | "publishedPostId" | "publishedMessages" | "attemptCount" | "nextAttemptAt">>;
 
 export type DraftPost = typeof draftPosts.$inferSelect;
 export type InsertDraftPost = z.infer<typeof insertDraftPostSchema>;
@@ -0,0 +1,44 @@
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Periods the dashboard counters can cover, ending now; "today" starts at local midnight
+export const statsWindows = ["today", "7d", "30d"] as const;
+export type StatsWindow = typeof statsWindows[number];
+
+export const statsWindowDays: Record<StatsWindow, number> = {
+  today: 1,
+  "7d": 7,
+  "30d": 30,
+};
+
+// True for IANA names such as "Europe/Moscow" that this runtime knows
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Midnight in `timeZone` of the day `daysAgo` days before `date`, as an absolute instant
+export function startOfDayInZone(date: Date, timeZone: string, daysAgo = 0): Date {
+  return startOfCalendarDayInZone(formatInTimeZone(date, timeZone, "yyyy-MM-dd"), timeZone, daysAgo);
+}
+
+/**
+ * Midnight in `timeZone` of a calendar day given as YYYY-MM-DD (or as a date parsed from
+ * one, i.e. UTC midnight), `daysAgo` days earlier; negative values move forward
+ */
+export function startOfCalendarDayInZone(day: string | Date, timeZone: string, daysAgo = 0): Date {
+  const calendarDay = typeof day === "string" ? day : day.toISOString().slice(0, 10);
+  const [year, month, date] = calendarDay.split("-").map(Number);
+  const localDay = new Date(Date.UTC(year, month - 1, date - daysAgo)).toISOString().slice(0, 10);
+  return fromZonedTime(`${localDay}T00:00:00`, timeZone);
+}
+
+// Midnight in `timeZone` of the first day of the month `date` falls in there
+export function startOfMonthInZone(date: Date, timeZone: string): Date {
+  return fromZonedTime(`${formatInTimeZone(date, timeZone, "yyyy-MM")}-01T00:00:00`, timeZone);
+}